@@ -0,0 +1,58 @@
+/**
+ * next/head variant of the JsonLd component for the Pages Router
+ * @module @opensourceframework/next-json-ld/head
+ */
+
+import { createElement, type ReactElement } from 'react';
+import Head from 'next/head';
+import { createJsonLdScript } from './index';
+import type { JsonLdProps } from './react';
+
+// ============================================================================
+// Components
+// ============================================================================
+
+/**
+ * Renders a JSON-LD script tag inside `next/head`
+ *
+ * The `id` prop is also used as the `next/head` key, so rendering the same
+ * id from several components only emits one script tag. The script is a
+ * direct child of Head because next/head only manages host elements.
+ *
+ * @param props - Component props
+ * @returns A Head element containing the script tag
+ *
+ * @example
+ * ```tsx
+ * import { JsonLdHead } from '@opensourceframework/next-json-ld/head';
+ *
+ * // pages/products/[slug].tsx
+ * export default function ProductPage({ product }) {
+ *   return (
+ *     <>
+ *       <JsonLdHead id="product" schema={createProductSchema(product)} />
+ *       <main>...</main>
+ *     </>
+ *   );
+ * }
+ * ```
+ */
+export function JsonLdHead({ schema, id, nonce, pretty }: JsonLdProps): ReactElement {
+  return createElement(
+    Head,
+    null,
+    createElement('script', {
+      key: id,
+      type: 'application/ld+json',
+      id,
+      nonce,
+      dangerouslySetInnerHTML: {
+        __html: createJsonLdScript(schema, { pretty }),
+      },
+    })
+  );
+}
+
+export type { JsonLdProps };
+
+export default JsonLdHead;
@@ -9,14 +9,53 @@
 // ============================================================================
 
 /**
- * Base JSON-LD schema type
+ * JSON-LD node without its own @context, as used inside a @graph
  */
-export interface JSONLDSchema {
-  '@context': 'https://schema.org';
+export interface JSONLDNode {
   '@type': string;
+  '@id'?: string;
   [key: string]: unknown;
 }
 
+/**
+ * Base JSON-LD schema type
+ */
+export interface JSONLDSchema extends JSONLDNode {
+  '@context': 'https://schema.org';
+}
+
+/**
+ * Reference to a node defined elsewhere, by its @id
+ */
+export interface JSONLDReference {
+  '@id': string;
+}
+
+/**
+ * JSON-LD document combining several nodes under a single @context
+ */
+export interface JSONLDGraph {
+  '@context': 'https://schema.org';
+  '@graph': JSONLDNode[];
+}
+
+/**
+ * Typed schema without the index signature inherited from JSONLDSchema, so
+ * that misspelled top-level properties in hand-built schemas are reported
+ *
+ * @example
+ * ```typescript
+ * const product: ExactJsonLd<ProductJsonLd> = {
+ *   '@context': 'https://schema.org',
+ *   '@type': 'Product',
+ *   nmae: 'Widget', // Error: 'nmae' does not exist in type
+ * };
+ * ```
+ */
+export type ExactJsonLd<T> = {
+  [K in keyof T as string extends K ? never : number extends K ? never : K]: T[K];
+};
+
 /**
  * Organization information for structured data
  */
@@ -27,10 +66,10 @@ export interface OrganizationInfo {
   description?: string;
   /** Organization website URL */
   url: string;
-  /** Organization logo URL */
-  logo?: string;
-  /** Organization image URL */
-  image?: string;
+  /** Organization logo URL or ImageObject */
+  logo?: ImageJsonLd;
+  /** Organization image URL or ImageObject */
+  image?: ImageJsonLd;
   /** Phone number */
   telephone?: string;
   /** Email address */
@@ -39,10 +78,28 @@ export interface OrganizationInfo {
   priceRange?: string;
   /** Social media URLs */
   sameAs?: string[];
+  /** Postal address (structured, or a single street address line) */
+  address?: string | PostalAddress;
   /** Organization ID (for referencing) */
   id?: string;
 }
 
+/**
+ * Structured postal address
+ */
+export interface PostalAddress {
+  /** Street address (e.g., '123 Main St') */
+  streetAddress?: string;
+  /** City or locality */
+  addressLocality?: string;
+  /** Region/State */
+  addressRegion?: string;
+  /** Postal code */
+  postalCode?: string;
+  /** Country (ISO 3166-1 alpha-2 code, e.g., 'US') */
+  addressCountry?: string;
+}
+
 /**
  * Geographic coordinates
  */
@@ -55,6 +112,9 @@ export interface GeoCoordinates {
 
 /**
  * Service area configuration
+ *
+ * A geo circle (geoMidpoint + geoRadius) takes precedence. Otherwise the most
+ * specific of city, region and country is emitted, contained in the others.
  */
 export interface ServiceArea {
   /** Center point coordinates */
@@ -69,18 +129,36 @@ export interface ServiceArea {
   country?: string;
 }
 
+/**
+ * Day of the week
+ */
+export type DayOfWeek =
+  | 'Monday'
+  | 'Tuesday'
+  | 'Wednesday'
+  | 'Thursday'
+  | 'Friday'
+  | 'Saturday'
+  | 'Sunday';
+
 /**
  * Opening hours specification
  */
 export interface OpeningHours {
-  /** Days of the week */
-  dayOfWeek?: ('Monday' | 'Tuesday' | 'Wednesday' | 'Thursday' | 'Friday' | 'Saturday' | 'Sunday')[];
+  /** Days of the week (may be omitted for special hours with validFrom/validThrough) */
+  dayOfWeek?: DayOfWeek[];
   /** Opening time (HH:MM format) */
   opens?: string;
   /** Closing time (HH:MM format) */
   closes?: string;
-  /** 24/7 availability */
+  /** Open all day (every day of the week when dayOfWeek is omitted) */
   open24Hours?: boolean;
+  /** Closed all day, e.g. for holiday closures */
+  closed?: boolean;
+  /** First date these hours apply (ISO format), for special or seasonal hours */
+  validFrom?: string;
+  /** Last date these hours apply (ISO format), for special or seasonal hours */
+  validThrough?: string;
 }
 
 /**
@@ -89,10 +167,13 @@ export interface OpeningHours {
 export interface OrganizationSchemaOptions {
   /** Organization information */
   organization: OrganizationInfo;
-  /** Service area */
-  areaServed?: ServiceArea;
-  /** Opening hours */
-  openingHoursSpecification?: OpeningHours;
+  /** Service area, or several areas */
+  areaServed?: ServiceArea | ServiceArea[];
+  /**
+   * Opening hours, as one or more specifications or in the compact format
+   * accepted by parseOpeningHours (e.g., 'Mo-Fr 09:00-18:00; Sa 10:00-14:00')
+   */
+  openingHoursSpecification?: OpeningHours | OpeningHours[] | string;
   /** Organization type (default: 'LocalBusiness') */
   type?: string;
 }
@@ -107,14 +188,59 @@ export interface ServiceSchemaOptions {
   description: string;
   /** Service URL */
   url: string;
-  /** Service image */
-  image?: string;
-  /** Provider organization */
-  provider: OrganizationInfo;
+  /** Service image URL or ImageObject */
+  image?: ImageJsonLd;
+  /**
+   * Provider organization: its details, the output of createOrganizationSchema,
+   * or an @id reference to an organization node emitted elsewhere on the page
+   */
+  provider: OrganizationInfo | OrganizationJsonLd | JSONLDReference;
+  /** Provider @type when `provider` is an OrganizationInfo (default: 'LocalBusiness') */
+  providerType?: string;
   /** Service type */
   serviceType?: string;
-  /** Service area */
-  areaServed?: ServiceArea;
+  /** Service area, or several areas */
+  areaServed?: ServiceArea | ServiceArea[];
+  /** Offers for the service */
+  offers?: ServiceOffer | ServiceOffer[];
+  /** Catalog of related services */
+  hasOfferCatalog?: OfferCatalog;
+  /** Service category, or several categories */
+  category?: string | string[];
+  /** Service ID (for referencing) */
+  id?: string;
+}
+
+/**
+ * Service offer
+ */
+export type ServiceOffer = Pick<
+  ProductOffer,
+  'price' | 'priceCurrency' | 'availability' | 'priceValidUntil' | 'validFrom' | 'url'
+>;
+
+/**
+ * Service in an offer catalog
+ */
+export interface OfferCatalogItem {
+  /** Service name */
+  name: string;
+  /** Service description */
+  description?: string;
+  /** Price (the service is wrapped in an Offer when set) */
+  price?: number;
+  /** Price currency (e.g., 'USD', 'EUR') */
+  priceCurrency?: string;
+}
+
+/**
+ * Catalog of services offered by a provider
+ */
+export interface OfferCatalog {
+  /** Catalog name */
+  name: string;
+  /** Services in the catalog */
+  items: OfferCatalogItem[];
 }
 
 /**
@@ -123,10 +249,18 @@ export interface ServiceSchemaOptions {
 export interface FAQItem {
   /** The question */
   question: string;
-  /** The answer */
+  /** The answer (may contain HTML) */
   answer: string;
 }
 
+/**
+ * FAQ schema options
+ */
+export interface FAQSchemaOptions {
+  /** Sanitize answer HTML with sanitizeHtml (default: answers are kept as is) */
+  sanitize?: HtmlSanitizeMode;
+}
+
 /**
  * Breadcrumb item
  */
@@ -141,8 +275,8 @@ export interface BreadcrumbItem {
  * Review item
  */
 export interface ReviewItem {
-  /** Author name */
-  author: string;
+  /** Author name, details (a person or an organization) or @id reference */
+  author: string | AuthorInfo | JSONLDReference;
   /** Review text */
   reviewBody: string;
   /** Rating value (1-5) */
@@ -152,11 +286,25 @@ export interface ReviewItem {
 }
 
 /**
- * Review schema options
+ * Item being reviewed
  */
-export interface ReviewSchemaOptions {
-  /** Organization being reviewed */
-  organization: OrganizationInfo;
+export interface ReviewedItemInfo {
+  /** schema.org type (e.g., 'Product', 'Book', 'Course', 'Recipe') */
+  type: string;
+  /** Item name (can be omitted when `id` references a node defined elsewhere) */
+  name?: string;
+  /** Item URL */
+  url?: string;
+  /** Item image URL or ImageObject */
+  image?: ImageJsonLd;
+  /** Item ID (for referencing) */
+  id?: string;
+}
+
+/**
+ * Aggregate rating and reviews, for createReviewSchema and attachReviews
+ */
+export interface ReviewRatingOptions {
   /** Total review count */
   reviewCount: number;
   /** Average rating value */
@@ -167,6 +315,167 @@ export interface ReviewSchemaOptions {
   worstRating?: number;
   /** Individual reviews */
   reviews: ReviewItem[];
+  /** Sanitize review bodies with sanitizeHtml (default: review bodies are kept as is) */
+  sanitize?: HtmlSanitizeMode;
+}
+
+/**
+ * Review schema options
+ *
+ * Either `organization` (emitted as a LocalBusiness) or `itemReviewed` must
+ * be set.
+ */
+export type ReviewSchemaOptions = ReviewRatingOptions &
+  (
+    | {
+        /** Organization being reviewed */
+        organization: OrganizationInfo;
+        itemReviewed?: undefined;
+      }
+    | {
+        /** Item being reviewed, of any type, or a reference to it by `id` */
+        itemReviewed: ReviewedItemInfo;
+        organization?: undefined;
+      }
+  );
+
+/**
+ * Aggregate rating information
+ */
+export interface AggregateRatingInfo {
+  /** Average rating value */
+  ratingValue: number;
+  /** Number of reviews */
+  reviewCount?: number;
+  /** Number of ratings (including ratings without review text) */
+  ratingCount?: number;
+  /** Best possible rating (default: 5) */
+  bestRating?: number;
+  /** Worst possible rating (default: 1) */
+  worstRating?: number;
+}
+
+/**
+ * Item availability
+ */
+export type ItemAvailability =
+  | 'InStock'
+  | 'OutOfStock'
+  | 'PreOrder'
+  | 'PreSale'
+  | 'Backorder'
+  | 'LimitedAvailability'
+  | 'InStoreOnly'
+  | 'OnlineOnly'
+  | 'SoldOut'
+  | 'Discontinued';
+
+/**
+ * Item condition
+ */
+export type ItemCondition =
+  | 'NewCondition'
+  | 'UsedCondition'
+  | 'RefurbishedCondition'
+  | 'DamagedCondition';
+
+/**
+ * Amount of money in a given currency
+ */
+export interface MonetaryValue {
+  /** Amount */
+  value: number;
+  /** Currency (e.g., 'USD', 'EUR') */
+  currency: string;
+}
+
+/**
+ * Range of business days
+ */
+export interface DayRange {
+  /** Minimum number of days */
+  minDays: number;
+  /** Maximum number of days */
+  maxDays: number;
+}
+
+/**
+ * Shipping details for an offer
+ */
+export interface ShippingDetails {
+  /** Shipping cost (use value 0 for free shipping) */
+  shippingRate: MonetaryValue;
+  /** Destination countries (ISO 3166-1 alpha-2 codes, e.g., 'US') */
+  shippingCountry: string | string[];
+  /** Destination regions (ISO 3166-2 subdivision codes, e.g., 'US-CA') */
+  shippingRegion?: string[];
+  /** Order handling time in business days */
+  handlingTime?: DayRange;
+  /** Transit time in business days */
+  transitTime?: DayRange;
+}
+
+/**
+ * Merchant return policy
+ */
+export interface MerchantReturnPolicy {
+  /** Countries the policy applies to (ISO 3166-1 alpha-2 codes) */
+  applicableCountry: string | string[];
+  /** Return policy type */
+  returnPolicyCategory:
+    | 'MerchantReturnFiniteReturnWindow'
+    | 'MerchantReturnNotPermitted'
+    | 'MerchantReturnUnlimitedWindow';
+  /** Return window in days (for MerchantReturnFiniteReturnWindow) */
+  merchantReturnDays?: number;
+  /** How items can be returned */
+  returnMethod?: 'ReturnByMail' | 'ReturnInStore' | 'ReturnAtKiosk';
+  /** Who pays for returns */
+  returnFees?: 'FreeReturn' | 'ReturnFeesCustomerResponsibility' | 'ReturnShippingFees';
+  /** Return shipping cost (for ReturnShippingFees) */
+  returnShippingFeesAmount?: MonetaryValue;
+}
+
+/**
+ * Product offer
+ */
+export interface ProductOffer {
+  /** Price */
+  price: number;
+  /** Price currency (e.g., 'USD', 'EUR') */
+  priceCurrency: string;
+  /** Availability status */
+  availability?: ItemAvailability;
+  /** Date after which the price is no longer valid (ISO format) */
+  priceValidUntil?: string;
+  /** Date from which the offer is available (ISO format) */
+  validFrom?: string;
+  /** Item condition */
+  itemCondition?: ItemCondition;
+  /** URL where the offer can be bought */
+  url?: string;
+  /** Seller name */
+  seller?: string;
+  /** Shipping details (defaults to the product's shippingDetails) */
+  shippingDetails?: ShippingDetails | ShippingDetails[];
+  /** Return policy (defaults to the product's hasMerchantReturnPolicy) */
+  hasMerchantReturnPolicy?: MerchantReturnPolicy;
+}
+
+/**
+ * Price range across several offers
+ */
+export interface AggregateOfferInfo {
+  /** Lowest price */
+  lowPrice: number;
+  /** Highest price */
+  highPrice?: number;
+  /** Price currency (e.g., 'USD', 'EUR') */
+  priceCurrency: string;
+  /** Number of offers */
+  offerCount?: number;
+  /** Availability status */
+  availability?: ItemAvailability;
 }
 
 /**
@@ -177,8 +486,8 @@ export interface ProductSchemaOptions {
   name: string;
   /** Product description */
   description: string;
-  /** Product image URL(s) */
-  image?: string | string[];
+  /** Product image URL(s) or ImageObject(s) */
+  image?: ImageJsonLd | ImageJsonLd[];
   /** Product URL */
   url?: string;
   /** Brand name */
@@ -190,31 +499,178 @@ export interface ProductSchemaOptions {
   /** Price currency (e.g., 'USD', 'EUR') */
   priceCurrency?: string;
   /** Availability status */
-  availability?: 'InStock' | 'OutOfStock' | 'PreOrder' | 'Backorder' | 'LimitedAvailability';
+  availability?: ItemAvailability;
+  /** Global Trade Item Number (GTIN-8, GTIN-12/UPC, GTIN-13/EAN or GTIN-14) */
+  gtin?: string;
+  /** Manufacturer part number */
+  mpn?: string;
+  /** Offers, in addition to the one described by price/priceCurrency */
+  offers?: ProductOffer | ProductOffer[];
+  /** Price range across offers, emitted as an AggregateOffer */
+  aggregateOffer?: AggregateOfferInfo;
+  /** Aggregate rating */
+  aggregateRating?: AggregateRatingInfo;
+  /** Individual reviews (rated on the aggregateRating scale) */
+  reviews?: ReviewItem[];
+  /** Shipping details for every offer that does not define its own */
+  shippingDetails?: ShippingDetails | ShippingDetails[];
+  /** Return policy for every offer that does not define its own */
+  hasMerchantReturnPolicy?: MerchantReturnPolicy;
+  /** Product ID (for referencing) */
+  id?: string;
+}
+
+/**
+ * Property that distinguishes the variants of a product group
+ */
+export type ProductVariesBy = 'color' | 'size' | 'material' | 'pattern';
+
+/**
+ * Product group variant
+ *
+ * Accepts the same options as createProductSchema. Name and description are
+ * optional because the group's values apply to every variant.
+ */
+export interface ProductVariant extends Omit<ProductSchemaOptions, 'name' | 'description'> {
+  /** Variant name (default: group name followed by the varying values) */
+  name?: string;
+  /** Variant description, when it differs from the group's */
+  description?: string;
+  /** Color */
+  color?: string;
+  /** Size */
+  size?: string;
+  /** Material */
+  material?: string;
+  /** Pattern */
+  pattern?: string;
+}
+
+/**
+ * Product group schema options
+ */
+export interface ProductGroupSchemaOptions {
+  /** Product group name */
+  name: string;
+  /** Product group description, shared by every variant */
+  description: string;
+  /** Parent SKU or other identifier of the group */
+  productGroupID: string;
+  /** Properties the variants differ by */
+  variesBy: ProductVariesBy | ProductVariesBy[];
+  /** Variants of the product */
+  variants: ProductVariant[];
+  /** Product group image URL(s) or ImageObject(s) */
+  image?: ImageJsonLd | ImageJsonLd[];
+  /** Product group URL */
+  url?: string;
+  /** Brand name, shared by every variant */
+  brand?: string;
+  /** Aggregate rating across all variants */
+  aggregateRating?: AggregateRatingInfo;
+  /** Reviews across all variants (rated on the aggregateRating scale) */
+  reviews?: ReviewItem[];
+  /** Shipping details for every variant offer that does not define its own */
+  shippingDetails?: ShippingDetails | ShippingDetails[];
+  /** Return policy for every variant offer that does not define its own */
+  hasMerchantReturnPolicy?: MerchantReturnPolicy;
+  /** Product group ID (for referencing) */
+  id?: string;
+}
+
+/**
+ * Article type
+ */
+export type ArticleType = 'Article' | 'NewsArticle' | 'BlogPosting' | 'TechArticle';
+
+/**
+ * Author of a piece of content
+ */
+export interface AuthorInfo {
+  /** Author name */
+  name: string;
+  /** Author type (default: 'Person') */
+  type?: 'Person' | 'Organization';
+  /** Profile page URL */
+  url?: string;
+  /** Social profile URLs */
+  sameAs?: string[];
+  /** Author ID (for referencing) */
+  id?: string;
 }
 
 /**
  * Article schema options
  */
 export interface ArticleSchemaOptions {
+  /** Article type (default: 'Article') */
+  type?: ArticleType;
+  /** Article ID (for referencing) */
+  id?: string;
   /** Article headline */
   headline: string;
   /** Article description */
   description?: string;
-  /** Article image */
-  image?: string;
+  /** Article image URL(s) or ImageObject(s) */
+  image?: ImageJsonLd | ImageJsonLd[];
   /** Publication date (ISO format) */
   datePublished: string;
   /** Modification date (ISO format) */
   dateModified?: string;
-  /** Author name */
-  author: string;
-  /** Publisher name */
-  publisher: string;
-  /** Publisher logo URL */
-  publisherLogo?: string;
+  /** Author name, details or @id reference, or several authors */
+  author: string | AuthorInfo | JSONLDReference | Array<string | AuthorInfo | JSONLDReference>;
+  /** Publisher name, or an @id reference to an organization node */
+  publisher: string | JSONLDReference;
+  /** Publisher logo URL or ImageObject (ignored when `publisher` is a reference) */
+  publisherLogo?: ImageJsonLd;
   /** Article URL */
   url?: string;
+  /** Section of the publication (e.g., 'Technology') */
+  articleSection?: string;
+  /** Number of words in the article body */
+  wordCount?: number;
+  /** Keywords or tags */
+  keywords?: string | string[];
+  /** Language of the article (IETF BCP 47 code, e.g. 'en-US') */
+  inLanguage?: string;
+  /** Sanitize the description with sanitizeHtml (default: the description is kept as is) */
+  sanitize?: HtmlSanitizeMode;
+}
+
+/**
+ * Physical event venue
+ */
+export interface EventPlace {
+  /** Venue name */
+  name: string;
+  /** Postal address (structured, or a single street address line) */
+  address?: string | PostalAddress;
+}
+
+/**
+ * Online event location
+ */
+export interface VirtualLocation {
+  /** URL where the event can be attended */
+  url: string;
+  /** Location name (e.g., the streaming platform) */
+  name?: string;
+}
+
+/**
+ * Event ticket offer
+ */
+export type EventOffer = Pick<
+  ProductOffer,
+  'price' | 'priceCurrency' | 'availability' | 'validFrom' | 'url'
+>;
+
+/**
+ * Event performer
+ */
+export interface EventPerformer extends Omit<AuthorInfo, 'type'> {
+  /** Performer type (default: 'Person') */
+  type?: 'Person' | 'PerformingGroup' | 'MusicGroup' | 'TheaterGroup' | 'DanceGroup';
 }
 
 /**
@@ -229,580 +685,6371 @@ export interface EventSchemaOptions {
   startDate: string;
   /** End date (ISO format) */
   endDate?: string;
-  /** Event location */
-  location?: {
-    name: string;
-    address?: string;
-  };
+  /** Venue and/or online location (both for mixed events) */
+  location?: EventPlace | VirtualLocation | Array<EventPlace | VirtualLocation>;
   /** Event URL */
   url?: string;
-  /** Event image */
-  image?: string;
+  /** Event image URL(s) or ImageObject(s) */
+  image?: ImageJsonLd | ImageJsonLd[];
   /** Event status */
   eventStatus?: 'EventScheduled' | 'EventCancelled' | 'EventPostponed' | 'EventRescheduled';
-  /** Event attendance mode */
+  /**
+   * Event attendance mode (default: derived from `location` when it includes
+   * a VirtualLocation)
+   */
   eventAttendanceMode?: 'OfflineEventAttendanceMode' | 'OnlineEventAttendanceMode' | 'MixedEventAttendanceMode';
+  /** Original start date(s) of a rescheduled event (ISO format) */
+  previousStartDate?: string | string[];
+  /** Ticket offers */
+  offers?: EventOffer | EventOffer[];
+  /** Performer name, details or @id reference, or several performers */
+  performer?:
+    | string
+    | EventPerformer
+    | JSONLDReference
+    | Array<string | EventPerformer | JSONLDReference>;
+  /** Organizer name, details or @id reference (default type: 'Organization') */
+  organizer?: string | AuthorInfo | JSONLDReference;
+  /** Event ID (for referencing) */
+  id?: string;
 }
 
-// ============================================================================
-// JSON-LD Schema Generators
-// ============================================================================
+/**
+ * Breadcrumb schema options
+ */
+export interface BreadcrumbSchemaOptions {
+  /** Breadcrumb list ID (for referencing, e.g. from a WebPage) */
+  id?: string;
+}
 
 /**
- * Creates a JSON-LD script tag for use in Next.js pages
- * 
- * @param schema - The JSON-LD schema object
- * @returns A script tag string for use in <head>
- *
- * @example
- * ```tsx
- * import { createJsonLdScript } from '@opensourceframework/next-json-ld';
- * 
- * // In your Next.js page
- * <head>
- *   <script
- *     type="application/ld+json"
- *     dangerouslySetInnerHTML={{
- *       __html: createJsonLdScript(organizationSchema)
- *     }}
- *   />
- * </head>
- * ```
+ * WebSite schema options
  */
-export function createJsonLdScript(schema: JSONLDSchema | JSONLDSchema[]): string {
-  return JSON.stringify(Array.isArray(schema) ? schema : schema);
+export interface WebSiteSchemaOptions {
+  /** Site name */
+  name: string;
+  /** Home page URL */
+  url: string;
+  /** Site description */
+  description?: string;
+  /** Alternative site name(s), e.g. an acronym */
+  alternateName?: string | string[];
+  /**
+   * Site search URL with a placeholder for the query, e.g.
+   * 'https://example.com/search?q={search_term_string}'
+   */
+  searchUrlTemplate?: string;
+  /** Language of the site (IETF BCP 47 code, e.g. 'en-US') */
+  inLanguage?: string;
+  /** Publisher name, or an @id reference to an organization node */
+  publisher?: string | JSONLDReference;
+  /** Site ID (for referencing) */
+  id?: string;
 }
 
 /**
- * Creates an Organization schema for local businesses
- * 
- * @param options - Organization schema options
- * @returns JSON-LD schema object
- *
- * @example
- * ```typescript
- * import { createOrganizationSchema } from '@opensourceframework/next-json-ld';
- * 
- * const schema = createOrganizationSchema({
- *   organization: {
- *     name: 'My Business',
- *     url: 'https://mybusiness.com',
- *     telephone: '+1-555-123-4567',
- *     email: 'info@mybusiness.com',
- *   },
- *   areaServed: {
- *     city: 'New York',
- *     geoMidpoint: { latitude: 40.7128, longitude: -74.0060 },
- *     geoRadius: '25km',
- *   },
- * });
- * ```
+ * WebPage type
  */
-export function createOrganizationSchema(
-  options: OrganizationSchemaOptions
-): JSONLDSchema {
-  const { organization, areaServed, openingHoursSpecification, type = 'LocalBusiness' } = options;
+export type WebPageType =
+  | 'WebPage'
+  | 'AboutPage'
+  | 'ContactPage'
+  | 'CollectionPage'
+  | 'ItemPage'
+  | 'CheckoutPage';
 
-  const schema: JSONLDSchema = {
-    '@context': 'https://schema.org',
-    '@type': type,
-    name: organization.name,
-    url: organization.url,
-  };
+/**
+ * WebPage schema options
+ */
+export interface WebPageSchemaOptions {
+  /** Page type (default: 'WebPage') */
+  type?: WebPageType;
+  /** Page title */
+  name: string;
+  /** Page URL */
+  url: string;
+  /** Page description */
+  description?: string;
+  /** Breadcrumb trail: the output of createBreadcrumbSchema, or an @id reference to it */
+  breadcrumb?: BreadcrumbListJsonLd | JSONLDReference;
+  /** Main image of the page: a URL or an ImageObject */
+  primaryImageOfPage?: ImageJsonLd;
+  /** Publication date (ISO format) */
+  datePublished?: string;
+  /** Modification date (ISO format) */
+  dateModified?: string;
+  /** Language of the page (IETF BCP 47 code, e.g. 'en-US') */
+  inLanguage?: string;
+  /** Reference to the WebSite the page belongs to */
+  isPartOf?: JSONLDReference;
+  /** Page ID (for referencing) */
+  id?: string;
+}
 
-  // Add optional organization fields
-  if (organization.id) {
-    schema['@id'] = organization.id;
-  }
-  if (organization.description) {
-    schema.description = organization.description;
-  }
-  if (organization.telephone) {
-    schema.telephone = organization.telephone;
-  }
-  if (organization.email) {
-    schema.email = organization.email;
-  }
-  if (organization.priceRange) {
-    schema.priceRange = organization.priceRange;
-  }
-  if (organization.image) {
-    schema.image = organization.image;
-  }
-  if (organization.logo) {
-    schema.logo = organization.logo;
-  }
-  if (organization.sameAs && organization.sameAs.length > 0) {
-    schema.sameAs = organization.sameAs;
+/**
+ * Duration, emitted in ISO 8601 format (e.g., { hours: 1, minutes: 30 } is 'PT1H30M')
+ */
+export interface DurationInfo {
+  /** Days */
+  days?: number;
+  /** Hours */
+  hours?: number;
+  /** Minutes */
+  minutes?: number;
+}
+
+/**
+ * Instruction step
+ */
+export interface HowToStepInfo {
+  /** Step instructions */
+  text: string;
+  /** Short step title */
+  name?: string;
+  /** URL of the step (e.g., a page anchor) */
+  url?: string;
+  /** Step image URL or ImageObject */
+  image?: ImageJsonLd;
+}
+
+/**
+ * Group of instruction steps
+ */
+export interface HowToSectionInfo {
+  /** Section name */
+  name: string;
+  /** Steps in the section, as text or details */
+  steps: Array<string | HowToStepInfo>;
+}
+
+/**
+ * Nutrition facts per serving
+ */
+export interface NutritionInfo {
+  /** Calories (a number is emitted as 'N calories') */
+  calories?: number | string;
+  /** Serving size (e.g., '1 slice') */
+  servingSize?: string;
+  /** Fat (e.g., '9 g') */
+  fatContent?: string;
+  /** Saturated fat */
+  saturatedFatContent?: string;
+  /** Cholesterol */
+  cholesterolContent?: string;
+  /** Sodium */
+  sodiumContent?: string;
+  /** Carbohydrates */
+  carbohydrateContent?: string;
+  /** Fiber */
+  fiberContent?: string;
+  /** Sugar */
+  sugarContent?: string;
+  /** Protein */
+  proteinContent?: string;
+}
+
+/**
+ * Recipe schema options
+ */
+export interface RecipeSchemaOptions {
+  /** Recipe name */
+  name: string;
+  /** Recipe image URL(s) or ImageObject(s) */
+  image: ImageJsonLd | ImageJsonLd[];
+  /** Recipe description */
+  description?: string;
+  /** Author name, details or @id reference */
+  author?: string | AuthorInfo | JSONLDReference;
+  /** Publication date (ISO format) */
+  datePublished?: string;
+  /** Preparation time (ISO 8601 duration, e.g. 'PT15M') */
+  prepTime?: string | DurationInfo;
+  /** Cooking time (ISO 8601 duration) */
+  cookTime?: string | DurationInfo;
+  /** Total time (ISO 8601 duration) */
+  totalTime?: string | DurationInfo;
+  /** Quantity produced (e.g., 4 or '4 servings') */
+  recipeYield?: number | string;
+  /** Meal type (e.g., 'Dinner', 'Dessert') */
+  recipeCategory?: string;
+  /** Cuisine (e.g., 'Italian') */
+  recipeCuisine?: string;
+  /** Keywords or tags */
+  keywords?: string | string[];
+  /** Ingredients, one per entry (e.g., '2 cups of flour') */
+  ingredients?: string[];
+  /** Instructions, as text steps, steps or sections of steps */
+  instructions?: Array<string | HowToStepInfo | HowToSectionInfo>;
+  /** Nutrition facts per serving */
+  nutrition?: NutritionInfo;
+  /** Aggregate rating */
+  aggregateRating?: AggregateRatingInfo;
+  /** Recipe ID (for referencing) */
+  id?: string;
+}
+
+/**
+ * HowTo schema options
+ */
+export interface HowToSchemaOptions {
+  /** Title of the guide */
+  name: string;
+  /** Steps, as text steps, steps or sections of steps */
+  steps: Array<string | HowToStepInfo | HowToSectionInfo>;
+  /** Guide description */
+  description?: string;
+  /** Image URL(s) or ImageObject(s) of the result */
+  image?: ImageJsonLd | ImageJsonLd[];
+  /** Total time (ISO 8601 duration, e.g. 'PT30M') */
+  totalTime?: string | DurationInfo;
+  /** Estimated cost */
+  estimatedCost?: MonetaryValue;
+  /** Tools needed, which are not consumed */
+  tools?: string[];
+  /** Supplies needed, which are consumed */
+  supplies?: string[];
+  /** Guide ID (for referencing) */
+  id?: string;
+}
+
+/**
+ * Employment type values supported by Google for Jobs
+ */
+export type EmploymentType =
+  | 'FULL_TIME'
+  | 'PART_TIME'
+  | 'CONTRACTOR'
+  | 'TEMPORARY'
+  | 'INTERN'
+  | 'VOLUNTEER'
+  | 'PER_DIEM'
+  | 'OTHER';
+
+/**
+ * Period a salary is paid for
+ */
+export type SalaryUnit = 'HOUR' | 'DAY' | 'WEEK' | 'MONTH' | 'YEAR';
+
+/**
+ * Base salary, as a single value or a range
+ */
+export interface SalaryInfo {
+  /** Currency (e.g., 'USD', 'EUR') */
+  currency: string;
+  /** Period the amount is paid for */
+  unit: SalaryUnit;
+  /** Exact amount */
+  value?: number;
+  /** Lower bound of the range */
+  minValue?: number;
+  /** Upper bound of the range */
+  maxValue?: number;
+}
+
+/**
+ * Job identifier assigned by the hiring organization
+ */
+export interface JobIdentifier {
+  /** Name of the issuing organization */
+  name: string;
+  /** Identifier value (e.g., a requisition number) */
+  value: string;
+}
+
+/**
+ * Area in which applicants to a remote job must be located
+ */
+export interface ApplicantLocation {
+  /** Area type (default: Country) */
+  type?: 'Country' | 'State';
+  /** Area name (e.g., 'USA') */
+  name: string;
+}
+
+/**
+ * JobPosting schema options
+ */
+export interface JobPostingSchemaOptions {
+  /** Job title */
+  title: string;
+  /** Full job description (HTML allowed) */
+  description: string;
+  /** Posting date (ISO format) */
+  datePosted: string;
+  /** Hiring organization, or an @id reference to it */
+  hiringOrganization: OrganizationInfo | JSONLDReference;
+  /** Work address(es), or 'TELECOMMUTE' for fully remote jobs */
+  jobLocation: PostalAddress | PostalAddress[] | 'TELECOMMUTE';
+  /** Where remote applicants must be located (a string is a country name) */
+  applicantLocationRequirements?: string | ApplicantLocation | Array<string | ApplicantLocation>;
+  /**
+   * Date after which the posting expires (ISO format). Must be after
+   * `datePosted`: this is not checked here, but reported by validateSchema
+   */
+  validThrough?: string;
+  /** Employment type(s) */
+  employmentType?: EmploymentType | EmploymentType[];
+  /** Base salary */
+  baseSalary?: SalaryInfo;
+  /** Job identifier */
+  identifier?: JobIdentifier;
+  /** Job posting ID (for referencing) */
+  id?: string;
+}
+
+/**
+ * Interaction counts of a person's profile
+ */
+export interface InteractionStatistics {
+  /** Number of followers */
+  followers?: number;
+  /** Number of likes received */
+  likes?: number;
+  /** Number of posts written */
+  posts?: number;
+}
+
+/**
+ * Person schema options
+ */
+export interface PersonSchemaOptions {
+  /** Full name */
+  name: string;
+  /** Profile or homepage URL */
+  url?: string;
+  /** Short biography */
+  description?: string;
+  /** Photo URL or ImageObject */
+  image?: ImageJsonLd;
+  /** Email address */
+  email?: string;
+  /** Job title (e.g., 'Editor in Chief') */
+  jobTitle?: string;
+  /** Employer, or an @id reference to it */
+  worksFor?: OrganizationInfo | JSONLDReference;
+  /** Schools attended, by name */
+  alumniOf?: string | string[];
+  /** Topics the person is knowledgeable about */
+  knowsAbout?: string[];
+  /** Social media and other profile URLs */
+  sameAs?: string[];
+  /** Follower, like and post counts (e.g., for a ProfilePage) */
+  interactionStatistics?: InteractionStatistics;
+  /** Person ID (for referencing) */
+  id?: string;
+}
+
+/**
+ * ProfilePage schema options
+ */
+export interface ProfilePageSchemaOptions {
+  /** Person or organization the page is about, or an @id reference to it */
+  mainEntity: PersonSchemaOptions | PersonSchemaJsonLd | OrganizationJsonLd | JSONLDReference;
+  /** Page URL */
+  url?: string;
+  /** Page title */
+  name?: string;
+  /** Profile creation date (ISO format) */
+  dateCreated?: string;
+  /** Profile modification date (ISO format) */
+  dateModified?: string;
+  /** Breadcrumb trail: the output of createBreadcrumbSchema, or an @id reference to it */
+  breadcrumb?: BreadcrumbListJsonLd | JSONLDReference;
+  /** Language of the page (IETF BCP 47 code, e.g. 'en-US') */
+  inLanguage?: string;
+  /** Reference to the WebSite the page belongs to */
+  isPartOf?: JSONLDReference;
+  /** Page ID (for referencing) */
+  id?: string;
+}
+
+/**
+ * ImageObject schema options
+ */
+export interface ImageObjectSchemaOptions {
+  /** Image file URL */
+  url: string;
+  /** Width in pixels */
+  width?: number;
+  /** Height in pixels */
+  height?: number;
+  /** Caption */
+  caption?: string;
+  /** Image title */
+  name?: string;
+  /** Image description */
+  description?: string;
+  /** Creator name, details or @id reference */
+  creator?: string | AuthorInfo | JSONLDReference;
+  /** Credit line (e.g., 'Photo: Jane Smith') */
+  creditText?: string;
+  /** Copyright notice */
+  copyrightNotice?: string;
+  /** URL of the license that applies to the image */
+  license?: string;
+  /** URL of the page where the image can be licensed */
+  acquireLicensePage?: string;
+  /** Image ID (for referencing) */
+  id?: string;
+}
+
+/**
+ * Key moment of a video
+ */
+export interface VideoClip {
+  /** Key moment title */
+  name: string;
+  /** Start time, in seconds from the beginning of the video */
+  startOffset: number;
+  /** End time, in seconds from the beginning of the video */
+  endOffset?: number;
+  /** URL that starts the video at this clip (e.g., 'https://example.com/video?t=30') */
+  url: string;
+}
+
+/**
+ * VideoObject schema options
+ */
+export interface VideoObjectSchemaOptions {
+  /** Video title */
+  name: string;
+  /** Thumbnail URL(s) */
+  thumbnailUrl: string | string[];
+  /** Upload date (ISO format) */
+  uploadDate: string;
+  /** Video description */
+  description?: string;
+  /** Length of the video (ISO 8601 duration, e.g. 'PT1M54S') */
+  duration?: string | DurationInfo;
+  /** URL of the video file */
+  contentUrl?: string;
+  /** URL of the embeddable player */
+  embedUrl?: string;
+  /** Date after which the video is no longer available (ISO format) */
+  expires?: string;
+  /** Key moments, with their own URLs */
+  clips?: VideoClip[];
+  /**
+   * URL template that starts the video at a given second, with a
+   * {seek_to_second_number} placeholder. Lets Google detect key moments itself.
+   */
+  seekToUrlTemplate?: string;
+  /** Video ID (for referencing) */
+  id?: string;
+}
+
+/**
+ * Course offer
+ */
+export interface CourseOffer
+  extends Pick<ProductOffer, 'price' | 'priceCurrency' | 'availability' | 'validFrom' | 'url'> {
+  /** Pricing category */
+  category?: 'Free' | 'Paid' | 'Subscription' | 'Partially Free';
+}
+
+/**
+ * Repeating schedule of a course instance
+ */
+export interface CourseSchedule {
+  /** Length of each session (ISO 8601 duration, e.g. 'PT2H') */
+  duration: string | DurationInfo;
+  /** How often sessions take place */
+  repeatFrequency: 'Daily' | 'Weekly' | 'Monthly' | 'Yearly';
+  /** Number of sessions per repeat frequency */
+  repeatCount: number;
+  /** First day of the schedule (ISO format) */
+  startDate?: string;
+  /** Last day of the schedule (ISO format) */
+  endDate?: string;
+}
+
+/**
+ * Course instance: one way the course is offered
+ */
+export interface CourseInstanceInfo {
+  /** Delivery mode */
+  courseMode: 'Online' | 'Onsite' | 'Blended';
+  /** Total time to complete the course (ISO 8601 duration, e.g. 'PT22H') */
+  courseWorkload?: string | DurationInfo;
+  /** Session schedule */
+  courseSchedule?: CourseSchedule;
+  /** Instructor name(s), details or @id reference(s) */
+  instructor?:
+    | string
+    | AuthorInfo
+    | JSONLDReference
+    | Array<string | AuthorInfo | JSONLDReference>;
+  /** Start date (ISO format) */
+  startDate?: string;
+  /** End date (ISO format) */
+  endDate?: string;
+}
+
+/**
+ * Course schema options
+ */
+export interface CourseSchemaOptions {
+  /** Course title */
+  name: string;
+  /** Course description */
+  description: string;
+  /**
+   * Organization offering the course: its details, the output of
+   * createOrganizationSchema, or an @id reference to an organization node
+   */
+  provider?: OrganizationInfo | OrganizationJsonLd | JSONLDReference;
+  /** Course URL */
+  url?: string;
+  /** Course image URL(s) or ImageObject(s) */
+  image?: ImageJsonLd | ImageJsonLd[];
+  /** Language of the course (IETF BCP 47 code, e.g. 'en-US') */
+  inLanguage?: string;
+  /** Price offer(s) */
+  offers?: CourseOffer | CourseOffer[];
+  /** Ways the course is offered */
+  hasCourseInstance?: CourseInstanceInfo | CourseInstanceInfo[];
+  /** Aggregate rating */
+  aggregateRating?: AggregateRatingInfo;
+  /** Course ID (for referencing) */
+  id?: string;
+}
+
+/**
+ * Software application type
+ */
+export type SoftwareApplicationType =
+  | 'SoftwareApplication'
+  | 'MobileApplication'
+  | 'WebApplication'
+  | 'VideoGame';
+
+/**
+ * Software application offer
+ */
+export type SoftwareApplicationOffer = Pick<
+  ProductOffer,
+  'price' | 'priceCurrency' | 'availability' | 'url'
+>;
+
+/**
+ * SoftwareApplication schema options
+ */
+export interface SoftwareApplicationSchemaOptions {
+  /** Application type (default: 'SoftwareApplication') */
+  type?: SoftwareApplicationType;
+  /** Application name */
+  name: string;
+  /** Application category (e.g., 'GameApplication', 'BusinessApplication') */
+  applicationCategory?: string;
+  /** Supported operating system(s) (e.g., 'Android 8.0', 'Windows 10') */
+  operatingSystem?: string | string[];
+  /** Price offer (use a price of 0 for free applications) */
+  offers?: SoftwareApplicationOffer;
+  /** Aggregate rating */
+  aggregateRating?: AggregateRatingInfo;
+  /** Application description */
+  description?: string;
+  /** Application page URL */
+  url?: string;
+  /** Application image URL(s) or ImageObject(s) */
+  image?: ImageJsonLd | ImageJsonLd[];
+  /** Current version */
+  softwareVersion?: string;
+  /** Download URL */
+  downloadUrl?: string;
+  /** Application ID (for referencing) */
+  id?: string;
+}
+
+/**
+ * Platforms a book can be read on
+ */
+export type ActionPlatform =
+  | 'DesktopWebPlatform'
+  | 'MobileWebPlatform'
+  | 'IOSPlatform'
+  | 'AndroidPlatform';
+
+/**
+ * Book format
+ */
+export type BookFormat = 'Hardcover' | 'Paperback' | 'EBook' | 'AudiobookFormat' | 'GraphicNovel';
+
+/**
+ * Book edition, emitted as a `workExample`
+ */
+export interface BookEdition {
+  /** ISBN-13 of the edition */
+  isbn: string;
+  /** Edition format */
+  bookFormat?: BookFormat;
+  /** Edition name (e.g., '2nd edition') */
+  bookEdition?: string;
+  /** Language of the edition (IETF BCP 47 code, e.g. 'en') */
+  inLanguage?: string;
+  /** Publication date (ISO format) */
+  datePublished?: string;
+  /** Number of pages */
+  numberOfPages?: number;
+  /** Edition page URL */
+  url?: string;
+  /** Page where the edition can be read or bought, as a ReadAction */
+  readAction?: {
+    /** URL of the reading page */
+    url: string;
+    /** Platforms the page works on (default: desktop and mobile web) */
+    platforms?: ActionPlatform[];
+  };
+  /** Edition ID (for referencing) */
+  id?: string;
+}
+
+/**
+ * Book schema options
+ */
+export interface BookSchemaOptions {
+  /** Book title */
+  name: string;
+  /** Author name(s), details or @id reference(s) */
+  author: string | AuthorInfo | JSONLDReference | Array<string | AuthorInfo | JSONLDReference>;
+  /** Book page URL */
+  url?: string;
+  /** Book description */
+  description?: string;
+  /** Cover image URL(s) or ImageObject(s) */
+  image?: ImageJsonLd | ImageJsonLd[];
+  /** ISBN, for a book with a single edition */
+  isbn?: string;
+  /** Editions of the book */
+  editions?: BookEdition[];
+  /** URLs of the book on other sites (e.g., Wikipedia) */
+  sameAs?: string[];
+  /** Aggregate rating */
+  aggregateRating?: AggregateRatingInfo;
+  /** Book ID (for referencing) */
+  id?: string;
+}
+
+/**
+ * Downloadable file of a dataset
+ */
+export interface DatasetDistribution {
+  /** File URL */
+  contentUrl: string;
+  /** MIME type or format (e.g., 'text/csv') */
+  encodingFormat?: string;
+}
+
+/**
+ * Variable measured by a dataset, with its unit
+ */
+export interface DatasetVariable {
+  /** Variable name */
+  name: string;
+  /** Variable description */
+  description?: string;
+  /** Unit (e.g., 'mm') */
+  unitText?: string;
+}
+
+/**
+ * Dataset schema options
+ */
+export interface DatasetSchemaOptions {
+  /** Dataset name */
+  name: string;
+  /** Summary of the dataset (50 to 5000 characters) */
+  description: string;
+  /** Dataset page URL */
+  url?: string;
+  /** URL of the license that applies to the dataset */
+  license?: string;
+  /** Creator name(s), details or @id reference(s) (a name is emitted as an Organization) */
+  creator?: string | AuthorInfo | JSONLDReference | Array<string | AuthorInfo | JSONLDReference>;
+  /** Keywords */
+  keywords?: string[];
+  /** Identifier, such as a DOI */
+  identifier?: string;
+  /** Version of the dataset */
+  version?: string;
+  /** Whether the dataset is free to access */
+  isAccessibleForFree?: boolean;
+  /** Downloadable files */
+  distribution?: DatasetDistribution[];
+  /**
+   * Time period covered: an ISO 8601 date or interval (e.g., '2008/2020'), or
+   * a start and optional end date (an open-ended interval without an end)
+   */
+  temporalCoverage?: string | { start: string; end?: string };
+  /** Area covered: a place name, coordinates or an area */
+  spatialCoverage?: string | GeoCoordinates | ServiceArea;
+  /** Variables measured, by name or with details */
+  variableMeasured?: Array<string | DatasetVariable>;
+  /** Catalog the dataset belongs to, by name or with its URL */
+  includedInDataCatalog?: string | { name: string; url?: string };
+  /** Dataset ID (for referencing) */
+  id?: string;
+}
+
+/**
+ * Sort order of an item list
+ */
+export type ItemListOrder = 'Ascending' | 'Descending' | 'Unordered';
+
+/**
+ * Item list settings shared by the summary and all-in-one modes
+ */
+export interface ItemListDetails {
+  /** List name (e.g., 'Best sellers') */
+  name?: string;
+  /** URL of the listing page */
+  url?: string;
+  /** Sort order */
+  itemListOrder?: ItemListOrder;
+  /** Total number of items across all pages of the list */
+  numberOfItems?: number;
+  /** Page of a paginated list: positions continue from the previous pages */
+  pagination?: {
+    /** Page number, starting at 1 */
+    page: number;
+    /** Number of items per page */
+    pageSize: number;
+  };
+  /** List ID (for referencing) */
+  id?: string;
+}
+
+/**
+ * ItemList schema options
+ */
+export type ItemListSchemaOptions = ItemListDetails &
+  (
+    | {
+        /** Summary mode: URLs of the detail pages, each with its own markup */
+        urls: string[];
+        items?: undefined;
+      }
+    | {
+        /** All-in-one mode: full items built by the other generators, each with a `url` */
+        items: JSONLDNode[];
+        urls?: undefined;
+      }
+  );
+
+/**
+ * Answer on a community Q&A page, with its author
+ */
+export interface CommunityAnswer {
+  /** Full answer text */
+  text: string;
+  /** Author name, details or @id reference */
+  author: string | AuthorInfo | JSONLDReference;
+  /** Publication date (ISO format) */
+  datePublished: string;
+  /** URL of the answer (e.g., a page anchor) */
+  url: string;
+  /** Number of upvotes */
+  upvoteCount?: number;
+}
+
+/**
+ * Question asked on a community Q&A page
+ */
+export interface CommunityQuestion {
+  /** Question title */
+  name: string;
+  /** Full question text */
+  text?: string;
+  /** Author name, details or @id reference */
+  author?: string | AuthorInfo | JSONLDReference;
+  /** Publication date (ISO format) */
+  datePublished?: string;
+  /** Number of upvotes */
+  upvoteCount?: number;
+  /** Total number of answers (default: the number of answers given) */
+  answerCount?: number;
+  /**
+   * Answer accepted by the asker or moderators. A question needs an accepted
+   * or a suggested answer: without either, validateSchema reports an error
+   */
+  acceptedAnswer?: CommunityAnswer;
+  /** Other answers */
+  suggestedAnswers?: CommunityAnswer[];
+}
+
+/**
+ * QAPage schema options
+ */
+export interface QAPageSchemaOptions {
+  /** The question the page is about */
+  question: CommunityQuestion;
+  /** Page ID (for referencing) */
+  id?: string;
+}
+
+/**
+ * Interaction counts of a forum post or comment
+ */
+export interface PostInteractionStatistics {
+  /** Number of likes */
+  likes?: number;
+  /** Number of dislikes */
+  dislikes?: number;
+  /** Number of views */
+  views?: number;
+  /** Number of replies */
+  comments?: number;
+  /** Number of shares */
+  shares?: number;
+}
+
+/**
+ * Comment on a forum post, with its replies
+ */
+export interface ForumComment {
+  /** Comment text */
+  text: string;
+  /** Author name, details or @id reference */
+  author: string | AuthorInfo | JSONLDReference;
+  /** Publication date (ISO format) */
+  datePublished: string;
+  /** URL of the comment (e.g., a page anchor) */
+  url?: string;
+  /** Like, view and reply counts */
+  interactionStatistics?: PostInteractionStatistics;
+  /** Replies to the comment */
+  replies?: ForumComment[];
+}
+
+/**
+ * DiscussionForumPosting schema options
+ */
+export interface DiscussionForumPostingSchemaOptions {
+  /** Post text */
+  text: string;
+  /** Author name, details or @id reference */
+  author: string | AuthorInfo | JSONLDReference;
+  /** Publication date (ISO format) */
+  datePublished: string;
+  /** Thread title */
+  headline?: string;
+  /** Last edit date (ISO format) */
+  dateModified?: string;
+  /** URL of the thread */
+  url?: string;
+  /** Image URL(s) or ImageObject(s) in the post */
+  image?: ImageJsonLd | ImageJsonLd[];
+  /** Comment threads */
+  comments?: ForumComment[];
+  /** Like, view and reply counts */
+  interactionStatistics?: PostInteractionStatistics;
+  /** Post ID (for referencing) */
+  id?: string;
+}
+
+/**
+ * How sanitizeHtml treats markup: keep the allowed tags, or reduce everything to plain text
+ */
+export type HtmlSanitizeMode = 'allowlist' | 'strip';
+
+/**
+ * Options for sanitizeHtml
+ */
+export interface SanitizeHtmlOptions {
+  /** Sanitization mode (default: 'allowlist') */
+  mode?: HtmlSanitizeMode;
+  /**
+   * Tags kept in allowlist mode (default: the tags Google supports in FAQ
+   * answers: h1-h6, br, ol, ul, li, a, p, div, b, strong, i and em)
+   */
+  allowedTags?: string[];
+}
+
+/**
+ * Serialization options for createJsonLdScript
+ */
+export interface JsonLdScriptOptions {
+  /**
+   * Escape `<`, `>`, `&`, U+2028 and U+2029 as unicode escapes so that
+   * string values cannot close the surrounding script tag (default: true)
+   */
+  escape?: boolean;
+  /** Pretty-print the output with two-space indentation (default: false) */
+  pretty?: boolean;
+}
+
+/**
+ * Conflicting property values found while merging nodes that share an @id
+ */
+export interface SchemaConflict {
+  /** The shared @id of the merged nodes */
+  id: string;
+  /** Property path of the conflicting value (e.g., 'address.postalCode') */
+  path: string;
+  /** Value that was kept (from the first node with this @id) */
+  existing: unknown;
+  /** Value that was discarded */
+  incoming: unknown;
+}
+
+/**
+ * mergeSchemas options
+ */
+export interface MergeSchemasOptions {
+  /** Combine the schemas into a single @graph document (default: false) */
+  graph?: boolean;
+  /** Called for every conflicting property value when merging nodes by @id */
+  onConflict?: (conflict: SchemaConflict) => void;
+}
+
+/**
+ * createEntityRegistry options
+ */
+export interface EntityRegistryOptions {
+  /** Site URL used to derive the @id of entities without one (`${baseUrl}/#${key}`) */
+  baseUrl?: string;
+}
+
+/**
+ * Site-wide entities, defined once and referenced by @id
+ * @typeParam K - Entity keys
+ */
+export interface EntityRegistry<K extends string> {
+  /** Returns an @id reference to an entity */
+  ref(key: K): JSONLDReference;
+  /** Returns the full definition of an entity */
+  get(key: K): JSONLDSchema;
+  /**
+   * Combines schemas into a single @graph document, together with the
+   * definition of every entity they reference
+   */
+  graph(
+    schemas: Array<JSONLDSchema | JSONLDGraph>,
+    options?: Omit<MergeSchemasOptions, 'graph'>
+  ): JSONLDGraph;
+}
+
+/**
+ * Validation issue severity
+ * - `error`: the schema is not eligible for the rich result
+ * - `warning`: a recommended property is missing or a value looks wrong
+ */
+export type ValidationSeverity = 'error' | 'warning';
+
+/**
+ * Single validation issue reported by validateSchema
+ */
+export interface ValidationIssue {
+  /** Property path (e.g., '$.offers.priceCurrency', '$["@graph"][1].name') */
+  path: string;
+  /** Issue severity */
+  severity: ValidationSeverity;
+  /** Human-readable message naming the affected property */
+  message: string;
+}
+
+/**
+ * Result of validateSchema
+ */
+export interface ValidationResult {
+  /** True when no errors were found (warnings are allowed) */
+  valid: boolean;
+  /** Issues that make the schema ineligible for rich results */
+  errors: ValidationIssue[];
+  /** Missing recommended properties and suspicious values */
+  warnings: ValidationIssue[];
+}
+
+// ============================================================================
+// Schema Output Types
+// ============================================================================
+
+/**
+ * ImageObject node
+ */
+export interface ImageObjectJsonLd {
+  '@type': 'ImageObject';
+  '@id'?: string;
+  url: string;
+  contentUrl?: string;
+  width?: number;
+  height?: number;
+  caption?: string;
+  name?: string;
+  description?: string;
+  creator?: AuthorJsonLd | JSONLDReference;
+  creditText?: string;
+  copyrightNotice?: string;
+  /** URL of the license that applies to the image */
+  license?: string;
+  /** URL of the page where the image can be licensed */
+  acquireLicensePage?: string;
+}
+
+/**
+ * Image: a URL or an ImageObject node
+ */
+export type ImageJsonLd = string | ImageObjectJsonLd;
+
+/**
+ * GeoCoordinates node
+ */
+export interface GeoCoordinatesJsonLd {
+  '@type': 'GeoCoordinates';
+  latitude: number;
+  longitude: number;
+}
+
+/**
+ * GeoCircle node describing a service radius
+ */
+export interface GeoCircleJsonLd {
+  '@type': 'GeoCircle';
+  geoMidpoint: GeoCoordinatesJsonLd;
+  geoRadius: string;
+}
+
+/**
+ * City, State or Country node
+ */
+export interface AdministrativeAreaJsonLd {
+  '@type': 'City' | 'State' | 'Country';
+  name: string;
+  containedInPlace?: AdministrativeAreaJsonLd;
+}
+
+/**
+ * Area served by an organization or service
+ */
+export type AreaServedJsonLd = GeoCircleJsonLd | AdministrativeAreaJsonLd;
+
+/**
+ * PostalAddress node
+ */
+export interface PostalAddressJsonLd {
+  '@type': 'PostalAddress';
+  streetAddress?: string;
+  addressLocality?: string;
+  addressRegion?: string;
+  postalCode?: string;
+  addressCountry?: string;
+}
+
+/**
+ * Place node
+ */
+export interface PlaceJsonLd {
+  '@type': 'Place';
+  name: string;
+  address?: PostalAddressJsonLd;
+}
+
+/**
+ * VirtualLocation node
+ */
+export interface VirtualLocationJsonLd {
+  '@type': 'VirtualLocation';
+  url: string;
+  name?: string;
+}
+
+/**
+ * Event location node: a venue or an online location
+ */
+export type EventLocationJsonLd = PlaceJsonLd | VirtualLocationJsonLd;
+
+/**
+ * OpeningHoursSpecification node
+ */
+export interface OpeningHoursSpecificationJsonLd {
+  '@type': 'OpeningHoursSpecification';
+  dayOfWeek?: DayOfWeek[];
+  opens: string;
+  closes: string;
+  validFrom?: string;
+  validThrough?: string;
+}
+
+/**
+ * Person node
+ */
+export interface PersonJsonLd {
+  '@type': 'Person';
+  '@id'?: string;
+  name: string;
+  url?: string;
+  sameAs?: string[];
+  description?: string;
+  image?: ImageJsonLd;
+  email?: string;
+  jobTitle?: string;
+  worksFor?: OrganizationNodeJsonLd | JSONLDReference;
+  alumniOf?: OrganizationReferenceJsonLd | OrganizationReferenceJsonLd[];
+  knowsAbout?: string[];
+  interactionStatistic?: InteractionCounterJsonLd[];
+  agentInteractionStatistic?: InteractionCounterJsonLd;
+}
+
+/**
+ * InteractionCounter node
+ */
+export interface InteractionCounterJsonLd {
+  '@type': 'InteractionCounter';
+  interactionType: string;
+  userInteractionCount: number;
+}
+
+/**
+ * Organization node nested in another schema (e.g., a publisher or provider)
+ */
+export interface OrganizationReferenceJsonLd {
+  '@type': string;
+  '@id'?: string;
+  name: string;
+  url?: string;
+  logo?: ImageObjectJsonLd;
+  address?: PostalAddressJsonLd;
+  sameAs?: string[];
+}
+
+/**
+ * Author node: a person or an organization
+ */
+export type AuthorJsonLd = PersonJsonLd | OrganizationReferenceJsonLd;
+
+/**
+ * Brand node
+ */
+export interface BrandJsonLd {
+  '@type': 'Brand';
+  name: string;
+}
+
+/**
+ * MonetaryAmount node
+ */
+export interface MonetaryAmountJsonLd {
+  '@type': 'MonetaryAmount';
+  value: number;
+  currency: string;
+}
+
+/**
+ * QuantitativeValue node
+ */
+export interface QuantitativeValueJsonLd {
+  '@type': 'QuantitativeValue';
+  value?: number;
+  minValue?: number;
+  maxValue?: number;
+  /** UN/CEFACT unit code (e.g., 'DAY') or unit text (e.g., 'HOUR') */
+  unitCode?: string;
+  /** Unit as text (e.g., 'YEAR' for a salary) */
+  unitText?: string;
+}
+
+/**
+ * DefinedRegion node
+ */
+export interface DefinedRegionJsonLd {
+  '@type': 'DefinedRegion';
+  addressCountry: string | string[];
+  addressRegion?: string[];
+}
+
+/**
+ * ShippingDeliveryTime node
+ */
+export interface ShippingDeliveryTimeJsonLd {
+  '@type': 'ShippingDeliveryTime';
+  handlingTime?: QuantitativeValueJsonLd;
+  transitTime?: QuantitativeValueJsonLd;
+}
+
+/**
+ * OfferShippingDetails node
+ */
+export interface OfferShippingDetailsJsonLd {
+  '@type': 'OfferShippingDetails';
+  shippingRate: MonetaryAmountJsonLd;
+  shippingDestination: DefinedRegionJsonLd;
+  deliveryTime?: ShippingDeliveryTimeJsonLd;
+}
+
+/**
+ * MerchantReturnPolicy node
+ */
+export interface MerchantReturnPolicyJsonLd {
+  '@type': 'MerchantReturnPolicy';
+  applicableCountry: string | string[];
+  /** Full schema.org return policy category URL */
+  returnPolicyCategory: string;
+  merchantReturnDays?: number;
+  /** Full schema.org return method URL */
+  returnMethod?: string;
+  /** Full schema.org return fees URL */
+  returnFees?: string;
+  returnShippingFeesAmount?: MonetaryAmountJsonLd;
+}
+
+/**
+ * Offer node
+ */
+export interface OfferJsonLd {
+  '@type': 'Offer';
+  /** Price formatted with two decimals */
+  price: string;
+  priceCurrency: string;
+  /** Full schema.org availability URL (e.g., 'https://schema.org/InStock') */
+  availability?: string;
+  priceValidUntil?: string;
+  validFrom?: string;
+  /** Full schema.org item condition URL */
+  itemCondition?: string;
+  url?: string;
+  seller?: OrganizationReferenceJsonLd;
+  shippingDetails?: OfferShippingDetailsJsonLd | OfferShippingDetailsJsonLd[];
+  hasMerchantReturnPolicy?: MerchantReturnPolicyJsonLd;
+  itemOffered?: OfferedServiceJsonLd;
+  /** Pricing category (e.g., 'Free' for courses) */
+  category?: string;
+}
+
+/**
+ * Service node nested in an offer catalog
+ */
+export interface OfferedServiceJsonLd {
+  '@type': 'Service';
+  name: string;
+  description?: string;
+}
+
+/**
+ * OfferCatalog node
+ */
+export interface OfferCatalogJsonLd {
+  '@type': 'OfferCatalog';
+  name: string;
+  itemListElement: Array<OfferJsonLd | OfferedServiceJsonLd>;
+}
+
+/**
+ * AggregateOffer node
+ */
+export interface AggregateOfferJsonLd {
+  '@type': 'AggregateOffer';
+  /** Lowest price formatted with two decimals */
+  lowPrice: string;
+  /** Highest price formatted with two decimals */
+  highPrice?: string;
+  priceCurrency: string;
+  offerCount?: number;
+  /** Full schema.org availability URL */
+  availability?: string;
+  offers?: OfferJsonLd[];
+}
+
+/**
+ * Rating node
+ */
+export interface RatingJsonLd {
+  '@type': 'Rating';
+  ratingValue: number;
+  bestRating?: number;
+  worstRating?: number;
+}
+
+/**
+ * AggregateRating node
+ */
+export interface AggregateRatingJsonLd {
+  '@type': 'AggregateRating';
+  ratingValue: number;
+  reviewCount?: number;
+  ratingCount?: number;
+  bestRating?: number;
+  worstRating?: number;
+}
+
+/**
+ * Review node
+ */
+export interface ReviewJsonLd {
+  '@type': 'Review';
+  author: AuthorJsonLd | JSONLDReference;
+  reviewBody?: string;
+  reviewRating: RatingJsonLd;
+  datePublished?: string;
+}
+
+/**
+ * Answer node
+ */
+export interface AnswerJsonLd {
+  '@type': 'Answer';
+  text: string;
+}
+
+/**
+ * Question node
+ */
+export interface QuestionJsonLd {
+  '@type': 'Question';
+  name: string;
+  acceptedAnswer: AnswerJsonLd;
+}
+
+/**
+ * Answer node on a community Q&A page
+ */
+export interface CommunityAnswerJsonLd extends AnswerJsonLd {
+  author: AuthorJsonLd | JSONLDReference;
+  datePublished: string;
+  url: string;
+  upvoteCount?: number;
+}
+
+/**
+ * Question node on a community Q&A page
+ */
+export interface CommunityQuestionJsonLd {
+  '@type': 'Question';
+  name: string;
+  answerCount: number;
+  text?: string;
+  author?: AuthorJsonLd | JSONLDReference;
+  datePublished?: string;
+  upvoteCount?: number;
+  acceptedAnswer?: CommunityAnswerJsonLd;
+  suggestedAnswer?: CommunityAnswerJsonLd[];
+}
+
+/**
+ * ListItem node
+ */
+export interface ListItemJsonLd {
+  '@type': 'ListItem';
+  position: number;
+  name: string;
+  item: string;
+}
+
+/**
+ * WebPage node referenced by @id
+ */
+export interface WebPageReferenceJsonLd {
+  '@type': 'WebPage';
+  '@id': string;
+}
+
+/**
+ * Output of createOrganizationSchema
+ */
+export interface OrganizationJsonLd extends JSONLDSchema, OrganizationNodeJsonLd {
+  areaServed?: AreaServedJsonLd | AreaServedJsonLd[];
+  openingHoursSpecification?: OpeningHoursSpecificationJsonLd | OpeningHoursSpecificationJsonLd[];
+}
+
+/**
+ * Organization node built from OrganizationInfo (e.g., a Service provider)
+ */
+export interface OrganizationNodeJsonLd {
+  '@type': string;
+  '@id'?: string;
+  name: string;
+  url: string;
+  description?: string;
+  telephone?: string;
+  email?: string;
+  priceRange?: string;
+  image?: ImageJsonLd;
+  logo?: ImageJsonLd;
+  sameAs?: string[];
+  address?: PostalAddressJsonLd;
+}
+
+/**
+ * Output of createServiceSchema
+ * @typeParam TProvider - Shape of `provider`, narrowed by the createServiceSchema overloads
+ */
+export interface ServiceJsonLd<
+  TProvider extends OrganizationNodeJsonLd | JSONLDReference =
+    | OrganizationNodeJsonLd
+    | JSONLDReference
+> extends JSONLDSchema {
+  '@type': 'Service';
+  name: string;
+  description: string;
+  url: string;
+  image?: ImageJsonLd;
+  provider: TProvider;
+  serviceType?: string;
+  areaServed?: AreaServedJsonLd | AreaServedJsonLd[];
+  offers?: OfferJsonLd | OfferJsonLd[];
+  hasOfferCatalog?: OfferCatalogJsonLd;
+  category?: string | string[];
+}
+
+/**
+ * Output of createFAQSchema
+ */
+export interface FAQPageJsonLd extends JSONLDSchema {
+  '@type': 'FAQPage';
+  mainEntity: QuestionJsonLd[];
+}
+
+/**
+ * BreadcrumbList node, as nested in WebPage.breadcrumb
+ */
+export interface BreadcrumbNodeJsonLd {
+  '@type': 'BreadcrumbList';
+  '@id'?: string;
+  itemListElement: ListItemJsonLd[];
+}
+
+/**
+ * Output of createBreadcrumbSchema
+ */
+export interface BreadcrumbListJsonLd extends JSONLDSchema, BreadcrumbNodeJsonLd {
+  '@type': 'BreadcrumbList';
+}
+
+/**
+ * Aggregate rating and reviews added by attachReviews
+ */
+export interface ReviewsJsonLd {
+  aggregateRating: AggregateRatingJsonLd;
+  review: ReviewJsonLd[];
+}
+
+/**
+ * Output of createReviewSchema
+ */
+export interface ReviewedItemJsonLd extends JSONLDSchema, ReviewsJsonLd {
+  name?: string;
+  url?: string;
+  image?: ImageJsonLd;
+  address?: PostalAddressJsonLd;
+}
+
+/**
+ * Value of Product.offers: one offer, several offers or a price range
+ */
+export type ProductOffersJsonLd = OfferJsonLd | OfferJsonLd[] | AggregateOfferJsonLd;
+
+/**
+ * Optional Product properties, shared by products and product group variants
+ * @typeParam TOffers - Shape of `offers`
+ */
+export interface ProductDetailsJsonLd<TOffers extends ProductOffersJsonLd = ProductOffersJsonLd> {
+  '@id'?: string;
+  image?: ImageJsonLd | ImageJsonLd[];
+  url?: string;
+  brand?: BrandJsonLd;
+  sku?: string;
+  gtin?: string;
+  mpn?: string;
+  offers?: TOffers;
+  aggregateRating?: AggregateRatingJsonLd;
+  review?: ReviewJsonLd[];
+}
+
+/**
+ * Output of createProductSchema
+ * @typeParam TOffers - Shape of `offers`, narrowed by the createProductSchema overloads
+ */
+export interface ProductJsonLd<TOffers extends ProductOffersJsonLd = ProductOffersJsonLd>
+  extends JSONLDSchema,
+    ProductDetailsJsonLd<TOffers> {
+  '@type': 'Product';
+  name: string;
+  description: string;
+}
+
+/**
+ * Variant nested in ProductGroup.hasVariant
+ */
+export interface ProductVariantJsonLd extends ProductDetailsJsonLd {
+  '@type': 'Product';
+  name: string;
+  description?: string;
+  color?: string;
+  size?: string;
+  material?: string;
+  pattern?: string;
+}
+
+/**
+ * Output of createProductGroupSchema
+ */
+export interface ProductGroupJsonLd extends JSONLDSchema {
+  '@type': 'ProductGroup';
+  name: string;
+  description: string;
+  productGroupID: string;
+  variesBy: string[];
+  hasVariant: ProductVariantJsonLd[];
+  image?: ImageJsonLd | ImageJsonLd[];
+  url?: string;
+  brand?: BrandJsonLd;
+  aggregateRating?: AggregateRatingJsonLd;
+  review?: ReviewJsonLd[];
+}
+
+/**
+ * Value of Article.author: one or several authors or references
+ */
+export type ArticleAuthorJsonLd =
+  | AuthorJsonLd
+  | JSONLDReference
+  | Array<AuthorJsonLd | JSONLDReference>;
+
+/**
+ * Output of createArticleSchema
+ * @typeParam TAuthor - Shape of `author`, narrowed by the createArticleSchema overloads
+ * @typeParam TPublisher - Shape of `publisher`, narrowed by the createArticleSchema overloads
+ */
+export interface ArticleJsonLd<
+  TAuthor extends ArticleAuthorJsonLd = ArticleAuthorJsonLd,
+  TPublisher extends OrganizationReferenceJsonLd | JSONLDReference =
+    | OrganizationReferenceJsonLd
+    | JSONLDReference
+> extends JSONLDSchema {
+  '@type': ArticleType;
+  headline: string;
+  description?: string;
+  image?: ImageJsonLd | ImageJsonLd[];
+  datePublished: string;
+  dateModified?: string;
+  author: TAuthor;
+  publisher: TPublisher;
+  mainEntityOfPage?: WebPageReferenceJsonLd;
+  articleSection?: string;
+  wordCount?: number;
+  keywords?: string | string[];
+  inLanguage?: string;
+}
+
+/**
+ * Output of createEventSchema
+ * @typeParam TLocation - Shape of `location`, narrowed by the createEventSchema overloads
+ */
+export interface EventJsonLd<
+  TLocation extends EventLocationJsonLd | EventLocationJsonLd[] =
+    | EventLocationJsonLd
+    | EventLocationJsonLd[]
+> extends JSONLDSchema {
+  '@type': 'Event';
+  name: string;
+  description?: string;
+  startDate: string;
+  endDate?: string;
+  location?: TLocation;
+  url?: string;
+  image?: ImageJsonLd | ImageJsonLd[];
+  /** Full schema.org event status URL */
+  eventStatus?: string;
+  /** Full schema.org attendance mode URL */
+  eventAttendanceMode?: string;
+  previousStartDate?: string | string[];
+  offers?: OfferJsonLd | OfferJsonLd[];
+  performer?: AuthorJsonLd | JSONLDReference | Array<AuthorJsonLd | JSONLDReference>;
+  organizer?: AuthorJsonLd | JSONLDReference;
+}
+
+/**
+ * EntryPoint node
+ */
+export interface EntryPointJsonLd {
+  '@type': 'EntryPoint';
+  urlTemplate: string;
+  /** Full schema.org platform URLs (e.g., 'https://schema.org/IOSPlatform') */
+  actionPlatform?: string[];
+}
+
+/**
+ * SearchAction node
+ */
+export interface SearchActionJsonLd {
+  '@type': 'SearchAction';
+  target: EntryPointJsonLd;
+  /** Placeholder declaration, e.g. 'required name=search_term_string' */
+  'query-input': string;
+}
+
+/**
+ * Output of createWebSiteSchema
+ */
+export interface WebSiteJsonLd extends JSONLDSchema {
+  '@type': 'WebSite';
+  name: string;
+  url: string;
+  description?: string;
+  alternateName?: string | string[];
+  inLanguage?: string;
+  publisher?: OrganizationReferenceJsonLd | JSONLDReference;
+  potentialAction?: SearchActionJsonLd;
+}
+
+/**
+ * Output of createWebPageSchema
+ */
+export interface WebPageJsonLd extends JSONLDSchema {
+  '@type': WebPageType;
+  name: string;
+  url: string;
+  description?: string;
+  breadcrumb?: BreadcrumbNodeJsonLd | JSONLDReference;
+  primaryImageOfPage?: ImageObjectJsonLd;
+  datePublished?: string;
+  dateModified?: string;
+  inLanguage?: string;
+  isPartOf?: JSONLDReference;
+}
+
+/**
+ * HowToStep node
+ */
+export interface HowToStepJsonLd {
+  '@type': 'HowToStep';
+  text: string;
+  name?: string;
+  url?: string;
+  image?: ImageJsonLd;
+}
+
+/**
+ * HowToSection node
+ */
+export interface HowToSectionJsonLd {
+  '@type': 'HowToSection';
+  name: string;
+  itemListElement: HowToStepJsonLd[];
+}
+
+/**
+ * HowToTool or HowToSupply node
+ */
+export interface HowToItemJsonLd {
+  '@type': 'HowToTool' | 'HowToSupply';
+  name: string;
+}
+
+/**
+ * NutritionInformation node
+ */
+export interface NutritionInformationJsonLd {
+  '@type': 'NutritionInformation';
+  calories?: string;
+  servingSize?: string;
+  fatContent?: string;
+  saturatedFatContent?: string;
+  cholesterolContent?: string;
+  sodiumContent?: string;
+  carbohydrateContent?: string;
+  fiberContent?: string;
+  sugarContent?: string;
+  proteinContent?: string;
+}
+
+/**
+ * Output of createRecipeSchema
+ */
+export interface RecipeJsonLd extends JSONLDSchema {
+  '@type': 'Recipe';
+  name: string;
+  image: ImageJsonLd | ImageJsonLd[];
+  description?: string;
+  author?: AuthorJsonLd | JSONLDReference;
+  datePublished?: string;
+  /** ISO 8601 duration */
+  prepTime?: string;
+  /** ISO 8601 duration */
+  cookTime?: string;
+  /** ISO 8601 duration */
+  totalTime?: string;
+  recipeYield?: number | string;
+  recipeCategory?: string;
+  recipeCuisine?: string;
+  keywords?: string | string[];
+  recipeIngredient?: string[];
+  recipeInstructions?: Array<HowToStepJsonLd | HowToSectionJsonLd>;
+  nutrition?: NutritionInformationJsonLd;
+  aggregateRating?: AggregateRatingJsonLd;
+}
+
+/**
+ * Output of createHowToSchema
+ */
+export interface HowToJsonLd extends JSONLDSchema {
+  '@type': 'HowTo';
+  name: string;
+  step: Array<HowToStepJsonLd | HowToSectionJsonLd>;
+  description?: string;
+  image?: ImageJsonLd | ImageJsonLd[];
+  /** ISO 8601 duration */
+  totalTime?: string;
+  estimatedCost?: MonetaryAmountJsonLd;
+  tool?: HowToItemJsonLd[];
+  supply?: HowToItemJsonLd[];
+}
+
+/**
+ * Job location node
+ */
+export interface JobLocationJsonLd {
+  '@type': 'Place';
+  address: PostalAddressJsonLd;
+}
+
+/**
+ * Base salary node: a MonetaryAmount with a QuantitativeValue
+ */
+export interface SalaryJsonLd {
+  '@type': 'MonetaryAmount';
+  currency: string;
+  value: QuantitativeValueJsonLd;
+}
+
+/**
+ * PropertyValue node
+ */
+export interface PropertyValueJsonLd {
+  '@type': 'PropertyValue';
+  name: string;
+  value?: string;
+  description?: string;
+  unitText?: string;
+}
+
+/**
+ * Output of createJobPostingSchema
+ */
+export interface JobPostingJsonLd extends JSONLDSchema {
+  '@type': 'JobPosting';
+  title: string;
+  description: string;
+  datePosted: string;
+  hiringOrganization: OrganizationNodeJsonLd | JSONLDReference;
+  jobLocation?: JobLocationJsonLd | JobLocationJsonLd[];
+  jobLocationType?: 'TELECOMMUTE';
+  applicantLocationRequirements?: AdministrativeAreaJsonLd | AdministrativeAreaJsonLd[];
+  validThrough?: string;
+  employmentType?: EmploymentType | EmploymentType[];
+  baseSalary?: SalaryJsonLd;
+  identifier?: PropertyValueJsonLd;
+}
+
+/**
+ * Output of createImageObjectSchema
+ */
+export interface ImageObjectSchemaJsonLd extends JSONLDSchema, ImageObjectJsonLd {
+  '@type': 'ImageObject';
+}
+
+/**
+ * Clip node: a key moment of a video
+ */
+export interface ClipJsonLd {
+  '@type': 'Clip';
+  name: string;
+  startOffset: number;
+  endOffset?: number;
+  url: string;
+}
+
+/**
+ * SeekToAction node
+ */
+export interface SeekToActionJsonLd {
+  '@type': 'SeekToAction';
+  target: string;
+  /** Placeholder declaration, 'required name=seek_to_second_number' */
+  'startOffset-input': string;
+}
+
+/**
+ * Output of createVideoObjectSchema
+ */
+export interface VideoObjectJsonLd extends JSONLDSchema {
+  '@type': 'VideoObject';
+  name: string;
+  thumbnailUrl: string | string[];
+  uploadDate: string;
+  description?: string;
+  /** ISO 8601 duration */
+  duration?: string;
+  contentUrl?: string;
+  embedUrl?: string;
+  expires?: string;
+  hasPart?: ClipJsonLd[];
+  potentialAction?: SeekToActionJsonLd;
+}
+
+/**
+ * Output of createPersonSchema
+ */
+export interface PersonSchemaJsonLd extends JSONLDSchema, PersonJsonLd {
+  '@type': 'Person';
+}
+
+/**
+ * Output of createProfilePageSchema
+ */
+export interface ProfilePageJsonLd extends JSONLDSchema {
+  '@type': 'ProfilePage';
+  mainEntity: PersonJsonLd | OrganizationNodeJsonLd | JSONLDReference;
+  url?: string;
+  name?: string;
+  dateCreated?: string;
+  dateModified?: string;
+  breadcrumb?: BreadcrumbNodeJsonLd | JSONLDReference;
+  inLanguage?: string;
+  isPartOf?: JSONLDReference;
+}
+
+/**
+ * Schedule node
+ */
+export interface ScheduleJsonLd {
+  '@type': 'Schedule';
+  /** ISO 8601 duration */
+  duration: string;
+  repeatFrequency: string;
+  repeatCount: number;
+  startDate?: string;
+  endDate?: string;
+}
+
+/**
+ * CourseInstance node
+ */
+export interface CourseInstanceJsonLd {
+  '@type': 'CourseInstance';
+  courseMode: string;
+  /** ISO 8601 duration */
+  courseWorkload?: string;
+  courseSchedule?: ScheduleJsonLd;
+  instructor?: AuthorJsonLd | JSONLDReference | Array<AuthorJsonLd | JSONLDReference>;
+  startDate?: string;
+  endDate?: string;
+}
+
+/**
+ * Output of createCourseSchema
+ */
+export interface CourseJsonLd extends JSONLDSchema {
+  '@type': 'Course';
+  name: string;
+  description: string;
+  provider?: OrganizationNodeJsonLd | JSONLDReference;
+  url?: string;
+  image?: ImageJsonLd | ImageJsonLd[];
+  inLanguage?: string;
+  offers?: OfferJsonLd | OfferJsonLd[];
+  hasCourseInstance?: CourseInstanceJsonLd | CourseInstanceJsonLd[];
+  aggregateRating?: AggregateRatingJsonLd;
+}
+
+/**
+ * Output of createSoftwareApplicationSchema
+ */
+export interface SoftwareApplicationJsonLd extends JSONLDSchema {
+  '@type': SoftwareApplicationType;
+  name: string;
+  applicationCategory?: string;
+  operatingSystem?: string;
+  offers?: OfferJsonLd;
+  aggregateRating?: AggregateRatingJsonLd;
+  description?: string;
+  url?: string;
+  image?: ImageJsonLd | ImageJsonLd[];
+  softwareVersion?: string;
+  downloadUrl?: string;
+}
+
+/**
+ * ReadAction node
+ */
+export interface ReadActionJsonLd {
+  '@type': 'ReadAction';
+  target: EntryPointJsonLd;
+}
+
+/**
+ * Book edition node
+ */
+export interface BookEditionJsonLd {
+  '@type': 'Book';
+  '@id'?: string;
+  isbn: string;
+  /** Full schema.org book format URL (e.g., 'https://schema.org/Hardcover') */
+  bookFormat?: string;
+  bookEdition?: string;
+  inLanguage?: string;
+  datePublished?: string;
+  numberOfPages?: number;
+  url?: string;
+  potentialAction?: ReadActionJsonLd;
+}
+
+/**
+ * Output of createBookSchema
+ */
+export interface BookJsonLd extends JSONLDSchema {
+  '@type': 'Book';
+  name: string;
+  author: AuthorJsonLd | JSONLDReference | Array<AuthorJsonLd | JSONLDReference>;
+  url?: string;
+  description?: string;
+  image?: ImageJsonLd | ImageJsonLd[];
+  isbn?: string;
+  workExample?: BookEditionJsonLd | BookEditionJsonLd[];
+  sameAs?: string[];
+  aggregateRating?: AggregateRatingJsonLd;
+}
+
+/**
+ * DataDownload node
+ */
+export interface DataDownloadJsonLd {
+  '@type': 'DataDownload';
+  contentUrl: string;
+  encodingFormat?: string;
+}
+
+/**
+ * DataCatalog node
+ */
+export interface DataCatalogJsonLd {
+  '@type': 'DataCatalog';
+  name: string;
+  url?: string;
+}
+
+/**
+ * Place node located by coordinates or a circle
+ */
+export interface GeoPlaceJsonLd {
+  '@type': 'Place';
+  geo: GeoCoordinatesJsonLd | GeoCircleJsonLd;
+}
+
+/**
+ * Output of createDatasetSchema
+ */
+export interface DatasetJsonLd extends JSONLDSchema {
+  '@type': 'Dataset';
+  name: string;
+  description: string;
+  url?: string;
+  license?: string;
+  creator?: AuthorJsonLd | JSONLDReference | Array<AuthorJsonLd | JSONLDReference>;
+  keywords?: string[];
+  identifier?: string;
+  version?: string;
+  isAccessibleForFree?: boolean;
+  distribution?: DataDownloadJsonLd[];
+  /** ISO 8601 date or interval */
+  temporalCoverage?: string;
+  spatialCoverage?: string | GeoPlaceJsonLd | AdministrativeAreaJsonLd;
+  variableMeasured?: Array<string | PropertyValueJsonLd>;
+  includedInDataCatalog?: DataCatalogJsonLd;
+}
+
+/**
+ * ListItem node of an ItemList: a URL in summary mode, a full item otherwise
+ */
+export interface ItemListElementJsonLd {
+  '@type': 'ListItem';
+  position: number;
+  url?: string;
+  item?: JSONLDNode;
+}
+
+/**
+ * Output of createItemListSchema
+ */
+export interface ItemListJsonLd extends JSONLDSchema {
+  '@type': 'ItemList';
+  itemListElement: ItemListElementJsonLd[];
+  name?: string;
+  url?: string;
+  /** Full schema.org order URL (e.g., 'https://schema.org/ItemListOrderAscending') */
+  itemListOrder?: string;
+  numberOfItems?: number;
+}
+
+/**
+ * Output of createQAPageSchema
+ */
+export interface QAPageJsonLd extends JSONLDSchema {
+  '@type': 'QAPage';
+  mainEntity: CommunityQuestionJsonLd;
+}
+
+/**
+ * Comment node
+ */
+export interface CommentJsonLd {
+  '@type': 'Comment';
+  text: string;
+  author: AuthorJsonLd | JSONLDReference;
+  datePublished: string;
+  url?: string;
+  interactionStatistic?: InteractionCounterJsonLd[];
+  comment?: CommentJsonLd[];
+}
+
+/**
+ * Output of createDiscussionForumPostingSchema
+ */
+export interface DiscussionForumPostingJsonLd extends JSONLDSchema {
+  '@type': 'DiscussionForumPosting';
+  text: string;
+  author: AuthorJsonLd | JSONLDReference;
+  datePublished: string;
+  headline?: string;
+  dateModified?: string;
+  url?: string;
+  image?: ImageJsonLd | ImageJsonLd[];
+  comment?: CommentJsonLd[];
+  interactionStatistic?: InteractionCounterJsonLd[];
+}
+
+// ============================================================================
+// JSON-LD Schema Generators
+// ============================================================================
+
+/**
+ * Characters that must not appear verbatim inside an inline script tag
+ */
+const SCRIPT_UNSAFE_CHARS = /[<>&\u2028\u2029]/g;
+
+const SCRIPT_ESCAPES: Record<string, string> = {
+  '<': '\\u003c',
+  '>': '\\u003e',
+  '&': '\\u0026',
+  '\u2028': '\\u2028',
+  '\u2029': '\\u2029',
+};
+
+/**
+ * Creates a JSON-LD script tag for use in Next.js pages
+ *
+ * The output is escaped by default so that user-generated values such as
+ * `</script>` or `<!--` cannot break out of the script element.
+ * 
+ * @param schema - The JSON-LD schema object, array of schemas or @graph document
+ * @param options - Serialization options
+ * @returns A script tag string for use in <head>
+ *
+ * @example
+ * ```tsx
+ * import { createJsonLdScript } from '@opensourceframework/next-json-ld';
+ * 
+ * // In your Next.js page
+ * <head>
+ *   <script
+ *     type="application/ld+json"
+ *     dangerouslySetInnerHTML={{
+ *       __html: createJsonLdScript(organizationSchema)
+ *     }}
+ *   />
+ * </head>
+ * ```
+ */
+export function createJsonLdScript(
+  schema: JSONLDSchema | JSONLDSchema[] | JSONLDGraph,
+  options: JsonLdScriptOptions = {}
+): string {
+  const { escape = true, pretty = false } = options;
+
+  const json = JSON.stringify(schema, null, pretty ? 2 : undefined);
+
+  if (!escape) {
+    return json;
+  }
+
+  return json.replace(SCRIPT_UNSAFE_CHARS, (char) => SCRIPT_ESCAPES[char] ?? char);
+}
+
+/**
+ * Creates an Organization schema for local businesses
+ * 
+ * @param options - Organization schema options
+ * @returns JSON-LD schema object
+ * @throws Error if an opening or closing time is not in HH:MM format
+ *
+ * @example
+ * ```typescript
+ * import { createOrganizationSchema } from '@opensourceframework/next-json-ld';
+ * 
+ * const schema = createOrganizationSchema({
+ *   organization: {
+ *     name: 'My Business',
+ *     url: 'https://mybusiness.com',
+ *     telephone: '+1-555-123-4567',
+ *     email: 'info@mybusiness.com',
+ *     address: {
+ *       streetAddress: '123 Main St',
+ *       addressLocality: 'New York',
+ *       addressRegion: 'NY',
+ *       postalCode: '10001',
+ *       addressCountry: 'US',
+ *     },
+ *   },
+ *   areaServed: {
+ *     city: 'New York',
+ *     geoMidpoint: { latitude: 40.7128, longitude: -74.0060 },
+ *     geoRadius: '25km',
+ *   },
+ * });
+ * ```
+ */
+export function createOrganizationSchema(
+  options: OrganizationSchemaOptions
+): OrganizationJsonLd {
+  const { organization, areaServed, openingHoursSpecification, type = 'LocalBusiness' } = options;
+
+  const schema: OrganizationJsonLd = {
+    '@context': 'https://schema.org',
+    ...buildOrganization(organization, type),
+  };
+
+  // Add service area
+  const area = areaServed && buildAreaServed(areaServed);
+  if (area) {
+    schema.areaServed = area;
+  }
+
+  // Add opening hours
+  if (openingHoursSpecification) {
+    const hours =
+      typeof openingHoursSpecification === 'string'
+        ? parseOpeningHours(openingHoursSpecification)
+        : openingHoursSpecification;
+
+    if (Array.isArray(hours)) {
+      const specifications = hours
+        .map(buildOpeningHoursSpecification)
+        .filter((specification) => specification !== undefined);
+      if (specifications.length > 0) {
+        schema.openingHoursSpecification = specifications;
+      }
+    } else {
+      const specification = buildOpeningHoursSpecification(hours);
+      if (specification) {
+        schema.openingHoursSpecification = specification;
+      }
+    }
+  }
+
+  return schema;
+}
+
+/**
+ * Creates a Service schema for specific services
+ * 
+ * @param options - Service schema options
+ * @returns JSON-LD schema object
+ *
+ * @example
+ * ```typescript
+ * import { createServiceSchema } from '@opensourceframework/next-json-ld';
+ * 
+ * const schema = createServiceSchema({
+ *   name: 'Web Development',
+ *   description: 'Professional web development services',
+ *   url: 'https://mybusiness.com/services/web-development',
+ *   provider: {
+ *     name: 'My Agency',
+ *     url: 'https://myagency.com',
+ *   },
+ *   serviceType: 'Professional Service',
+ * });
+ * ```
+ */
+export function createServiceSchema(
+  options: ServiceSchemaOptions & { provider: OrganizationInfo | OrganizationJsonLd }
+): ServiceJsonLd<OrganizationNodeJsonLd>;
+export function createServiceSchema(options: ServiceSchemaOptions): ServiceJsonLd;
+export function createServiceSchema(options: ServiceSchemaOptions): ServiceJsonLd {
+  const {
+    name,
+    description,
+    url,
+    image,
+    provider,
+    providerType = 'LocalBusiness',
+    serviceType,
+    areaServed,
+    offers,
+    hasOfferCatalog,
+    category,
+    id,
+  } = options;
+
+  const schema: ServiceJsonLd = {
+    '@context': 'https://schema.org',
+    '@type': 'Service',
+    name,
+    description,
+    url,
+    provider: buildServiceProvider(provider, providerType),
+  };
+
+  if (id) {
+    schema['@id'] = id;
+  }
+
+  if (image) {
+    schema.image = buildImage(image);
+  }
+
+  if (serviceType) {
+    schema.serviceType = serviceType;
+  }
+
+  const area = areaServed && buildAreaServed(areaServed);
+  if (area) {
+    schema.areaServed = area;
+  }
+
+  if (offers) {
+    schema.offers = Array.isArray(offers) ? offers.map(buildOffer) : buildOffer(offers);
+  }
+  if (hasOfferCatalog) {
+    schema.hasOfferCatalog = buildOfferCatalog(hasOfferCatalog);
+  }
+  if (category && category.length > 0) {
+    schema.category = category;
+  }
+
+  return schema;
+}
+
+/**
+ * Creates a FAQ schema for FAQ pages
+ * 
+ * @param faqs - Array of FAQ items
+ * @param options - FAQ schema options
+ * @returns JSON-LD schema object
+ *
+ * @example
+ * ```typescript
+ * import { createFAQSchema } from '@opensourceframework/next-json-ld';
+ * 
+ * const schema = createFAQSchema([
+ *   { question: 'What are your hours?', answer: 'We are open 24/7.' },
+ *   { question: 'Do you offer refunds?', answer: 'Yes, within 30 days.' },
+ * ]);
+ *
+ * // Answers written in a CMS rich-text editor
+ * const sanitized = createFAQSchema(faqs, { sanitize: 'allowlist' });
+ * ```
+ */
+export function createFAQSchema(faqs: FAQItem[], options: FAQSchemaOptions = {}): FAQPageJsonLd {
+  const { sanitize } = options;
+
+  return {
+    '@context': 'https://schema.org',
+    '@type': 'FAQPage',
+    mainEntity: faqs.map((faq) => ({
+      '@type': 'Question',
+      name: faq.question,
+      acceptedAnswer: buildAnswer(sanitizeText(faq.answer, sanitize)),
+    })),
+  };
+}
+
+/**
+ * Creates a Breadcrumb schema for navigation
+ * 
+ * @param items - Array of breadcrumb items
+ * @param options - Breadcrumb schema options
+ * @returns JSON-LD schema object
+ *
+ * @example
+ * ```typescript
+ * import { createBreadcrumbSchema } from '@opensourceframework/next-json-ld';
+ * 
+ * const schema = createBreadcrumbSchema([
+ *   { name: 'Home', url: 'https://example.com' },
+ *   { name: 'Products', url: 'https://example.com/products' },
+ *   { name: 'Widgets', url: 'https://example.com/products/widgets' },
+ * ]);
+ * ```
+ */
+export function createBreadcrumbSchema(
+  items: BreadcrumbItem[],
+  options: BreadcrumbSchemaOptions = {}
+): BreadcrumbListJsonLd {
+  const schema: BreadcrumbListJsonLd = {
+    '@context': 'https://schema.org',
+    '@type': 'BreadcrumbList',
+    itemListElement: items.map((item, index) => ({
+      '@type': 'ListItem',
+      position: index + 1,
+      name: item.name,
+      item: item.url,
+    })),
+  };
+
+  if (options.id) {
+    schema['@id'] = options.id;
+  }
+
+  return schema;
+}
+
+/**
+ * Creates a Review schema for testimonials and reviews
+ *
+ * The reviewed item is either an organization, emitted as a LocalBusiness, or
+ * an `itemReviewed` of any type. An `itemReviewed` with only `type` and `id`
+ * describes a node defined elsewhere; combine both with
+ * `mergeSchemas(..., { graph: true })` to attach the ratings to it.
+ * 
+ * @param options - Review schema options
+ * @returns JSON-LD schema object
+ *
+ * @example
+ * ```typescript
+ * import { createReviewSchema } from '@opensourceframework/next-json-ld';
+ * 
+ * const schema = createReviewSchema({
+ *   organization: {
+ *     name: 'My Business',
+ *     url: 'https://mybusiness.com',
+ *   },
+ *   reviewCount: 150,
+ *   ratingValue: 4.8,
+ *   reviews: [
+ *     {
+ *       author: 'John Doe',
+ *       reviewBody: 'Excellent service!',
+ *       reviewRating: 5,
+ *       datePublished: '2024-01-15',
+ *     },
+ *   ],
+ * });
+ * ```
+ */
+export function createReviewSchema(options: ReviewSchemaOptions): ReviewedItemJsonLd {
+  const { organization, itemReviewed, ...ratings } = options;
+
+  const item: ReviewedItemInfo = organization
+    ? { ...organization, type: 'LocalBusiness' }
+    : itemReviewed;
+
+  const schema: ReviewedItemJsonLd = {
+    '@context': 'https://schema.org',
+    '@type': item.type,
+    ...buildReviews(ratings),
+  };
+
+  if (item.id) {
+    schema['@id'] = item.id;
+  }
+  if (item.name) {
+    schema.name = item.name;
+  }
+  if (item.url) {
+    schema.url = item.url;
+  }
+  if (item.image) {
+    schema.image = buildImage(item.image);
+  }
+  if (organization?.address) {
+    schema.address = buildPostalAddress(organization.address);
+  }
+
+  return schema;
+}
+
+/**
+ * Adds an aggregate rating and reviews to a schema created by another generator
+ *
+ * The input schema is not modified.
+ *
+ * @param schema - Schema of the reviewed item
+ * @param options - Aggregate rating and reviews
+ * @returns A copy of the schema with `aggregateRating` and `review`
+ *
+ * @example
+ * ```typescript
+ * import { attachReviews, createProductSchema } from '@opensourceframework/next-json-ld';
+ *
+ * const schema = attachReviews(
+ *   createProductSchema({ name: 'Premium Widget', description: 'High-quality widget' }),
+ *   {
+ *     reviewCount: 24,
+ *     ratingValue: 4.6,
+ *     reviews: [
+ *       {
+ *         author: { type: 'Organization', name: 'Widget Weekly' },
+ *         reviewBody: 'Works great.',
+ *         reviewRating: 5,
+ *         datePublished: '2024-02-01',
+ *       },
+ *     ],
+ *   }
+ * );
+ * ```
+ */
+export function attachReviews<T extends JSONLDNode>(
+  schema: T,
+  options: ReviewRatingOptions
+): T & ReviewsJsonLd {
+  return {
+    ...schema,
+    ...buildReviews(options),
+  };
+}
+
+/**
+ * Creates a Product schema for e-commerce products
+ * 
+ * @param options - Product schema options
+ * @returns JSON-LD schema object
+ *
+ * @example
+ * ```typescript
+ * import { createProductSchema } from '@opensourceframework/next-json-ld';
+ * 
+ * const schema = createProductSchema({
+ *   name: 'Premium Widget',
+ *   description: 'High-quality widget for all your needs',
+ *   image: 'https://example.com/widget.jpg',
+ *   brand: 'WidgetCo',
+ *   sku: 'WGT-001',
+ *   price: 29.99,
+ *   priceCurrency: 'USD',
+ *   availability: 'InStock',
+ * });
+ * ```
+ */
+export function createProductSchema(
+  options: ProductSchemaOptions & { offers?: undefined; aggregateOffer?: undefined }
+): ProductJsonLd<OfferJsonLd>;
+export function createProductSchema(
+  options: ProductSchemaOptions & { aggregateOffer: AggregateOfferInfo }
+): ProductJsonLd<AggregateOfferJsonLd>;
+export function createProductSchema(options: ProductSchemaOptions): ProductJsonLd;
+export function createProductSchema(options: ProductSchemaOptions): ProductJsonLd {
+  const { name, description, ...details } = options;
+
+  const schema: ProductJsonLd = {
+    '@context': 'https://schema.org',
+    '@type': 'Product',
+    name,
+    description,
+  };
+
+  applyProductDetails(schema, details);
+
+  return schema;
+}
+
+/**
+ * Creates a ProductGroup schema for products sold in several variants
+ *
+ * Each variant accepts the same options as createProductSchema. Description,
+ * brand, image and ratings set on the group apply to every variant and are
+ * only emitted on the group.
+ *
+ * @param options - Product group schema options
+ * @returns JSON-LD schema object
+ *
+ * @example
+ * ```typescript
+ * import { createProductGroupSchema } from '@opensourceframework/next-json-ld';
+ *
+ * const schema = createProductGroupSchema({
+ *   name: 'Wool Sweater',
+ *   description: 'Warm merino wool sweater',
+ *   brand: 'KnitCo',
+ *   productGroupID: 'SWTR',
+ *   variesBy: ['color', 'size'],
+ *   variants: [
+ *     { sku: 'SWTR-RED-M', color: 'Red', size: 'M', price: 59, priceCurrency: 'USD' },
+ *     { sku: 'SWTR-BLU-L', color: 'Blue', size: 'L', price: 59, priceCurrency: 'USD' },
+ *   ],
+ * });
+ * ```
+ */
+export function createProductGroupSchema(options: ProductGroupSchemaOptions): ProductGroupJsonLd {
+  const {
+    name,
+    description,
+    productGroupID,
+    variesBy,
+    variants,
+    image,
+    url,
+    brand,
+    aggregateRating,
+    reviews,
+    shippingDetails,
+    hasMerchantReturnPolicy,
+    id,
+  } = options;
+
+  const varyingProperties = Array.isArray(variesBy) ? variesBy : [variesBy];
+
+  const schema: ProductGroupJsonLd = {
+    '@context': 'https://schema.org',
+    '@type': 'ProductGroup',
+    name,
+    description,
+    productGroupID,
+    variesBy: varyingProperties.map((property) => `https://schema.org/${property}`),
+    hasVariant: variants.map((variant) =>
+      buildProductVariant(
+        {
+          ...variant,
+          shippingDetails: variant.shippingDetails ?? shippingDetails,
+          hasMerchantReturnPolicy: variant.hasMerchantReturnPolicy ?? hasMerchantReturnPolicy,
+        },
+        name,
+        varyingProperties
+      )
+    ),
+  };
+
+  if (id) {
+    schema['@id'] = id;
+  }
+  if (image) {
+    schema.image = buildImages(image);
+  }
+  if (url) {
+    schema.url = url;
+  }
+  if (brand) {
+    schema.brand = {
+      '@type': 'Brand',
+      name: brand,
+    };
+  }
+  if (aggregateRating) {
+    schema.aggregateRating = buildAggregateRating(aggregateRating);
+  }
+  if (reviews && reviews.length > 0) {
+    schema.review = reviews.map((review) =>
+      buildReview(review, aggregateRating?.bestRating ?? 5, aggregateRating?.worstRating ?? 1)
+    );
+  }
+
+  return schema;
+}
+
+/**
+ * Creates an Article schema for blog posts and news articles
+ *
+ * A single author is emitted as an object and several authors as an array.
+ * 
+ * @param options - Article schema options
+ * @returns JSON-LD schema object
+ *
+ * @example
+ * ```typescript
+ * import { createArticleSchema } from '@opensourceframework/next-json-ld';
+ * 
+ * const schema = createArticleSchema({
+ *   headline: 'How to Build Accessible Websites',
+ *   description: 'A comprehensive guide to web accessibility',
+ *   image: 'https://example.com/article.jpg',
+ *   datePublished: '2024-01-15',
+ *   dateModified: '2024-01-20',
+ *   author: 'Jane Smith',
+ *   publisher: 'Tech Blog',
+ *   publisherLogo: 'https://example.com/logo.png',
+ *   url: 'https://example.com/articles/accessible-websites',
+ * });
+ * ```
+ */
+export function createArticleSchema(
+  options: ArticleSchemaOptions & { author: string | AuthorInfo; publisher: string }
+): ArticleJsonLd<AuthorJsonLd, OrganizationReferenceJsonLd>;
+export function createArticleSchema(options: ArticleSchemaOptions): ArticleJsonLd;
+export function createArticleSchema(options: ArticleSchemaOptions): ArticleJsonLd {
+  const {
+    type = 'Article',
+    id,
+    headline,
+    description,
+    image,
+    datePublished,
+    dateModified,
+    author,
+    publisher,
+    publisherLogo,
+    url,
+    articleSection,
+    wordCount,
+    keywords,
+    inLanguage,
+    sanitize,
+  } = options;
+
+  const schema: ArticleJsonLd = {
+    '@context': 'https://schema.org',
+    '@type': type,
+    headline,
+    datePublished,
+    author: Array.isArray(author)
+      ? author.map((item) => buildAgentOrReference(item, 'Person'))
+      : buildAgentOrReference(author, 'Person'),
+    publisher: buildPublisher(publisher, publisherLogo),
+  };
+
+  if (id) {
+    schema['@id'] = id;
+  }
+
+  if (description) {
+    schema.description = sanitizeText(description, sanitize);
+  }
+  if (image) {
+    schema.image = buildImages(image);
+  }
+  if (dateModified) {
+    schema.dateModified = dateModified;
+  }
+  if (url) {
+    schema.mainEntityOfPage = {
+      '@type': 'WebPage',
+      '@id': url,
+    };
+  }
+  if (articleSection) {
+    schema.articleSection = articleSection;
+  }
+  if (wordCount !== undefined) {
+    schema.wordCount = wordCount;
+  }
+  if (keywords && keywords.length > 0) {
+    schema.keywords = keywords;
+  }
+  if (inLanguage) {
+    schema.inLanguage = inLanguage;
+  }
+
+  return schema;
+}
+
+/**
+ * Creates an Event schema for events
+ *
+ * Online and mixed events list a VirtualLocation in `location`; the attendance
+ * mode is derived from it unless `eventAttendanceMode` is set.
+ * 
+ * @param options - Event schema options
+ * @returns JSON-LD schema object
+ *
+ * @example
+ * ```typescript
+ * import { createEventSchema } from '@opensourceframework/next-json-ld';
+ * 
+ * const schema = createEventSchema({
+ *   name: 'Tech Conference 2024',
+ *   description: 'Annual technology conference',
+ *   startDate: '2024-06-15T09:00:00Z',
+ *   endDate: '2024-06-17T18:00:00Z',
+ *   location: {
+ *     name: 'Convention Center',
+ *     address: '123 Main St, San Francisco, CA',
+ *   },
+ *   url: 'https://example.com/events/tech-conf-2024',
+ *   eventStatus: 'EventScheduled',
+ * });
+ * ```
+ */
+export function createEventSchema(
+  options: EventSchemaOptions & { location?: EventPlace & { url?: undefined } }
+): EventJsonLd<PlaceJsonLd>;
+export function createEventSchema(options: EventSchemaOptions): EventJsonLd;
+export function createEventSchema(options: EventSchemaOptions): EventJsonLd {
+  const {
+    name,
+    description,
+    startDate,
+    endDate,
+    location,
+    url,
+    image,
+    eventStatus,
+    eventAttendanceMode,
+    previousStartDate,
+    offers,
+    performer,
+    organizer,
+    id,
+  } = options;
+
+  const schema: EventJsonLd = {
+    '@context': 'https://schema.org',
+    '@type': 'Event',
+    name,
+    startDate,
+  };
+
+  if (id) {
+    schema['@id'] = id;
+  }
+  if (description) {
+    schema.description = description;
+  }
+  if (endDate) {
+    schema.endDate = endDate;
+  }
+  const locations = location ? (Array.isArray(location) ? location : [location]) : [];
+  const locationNodes = locations.map(buildEventLocation);
+  if (locationNodes.length === 1) {
+    schema.location = locationNodes[0];
+  } else if (locationNodes.length > 1) {
+    schema.location = locationNodes;
+  }
+  if (url) {
+    schema.url = url;
+  }
+  if (image) {
+    schema.image = buildImages(image);
+  }
+  if (eventStatus) {
+    schema.eventStatus = `https://schema.org/${eventStatus}`;
+  }
+
+  const attendanceMode = eventAttendanceMode ?? inferEventAttendanceMode(locationNodes);
+  if (attendanceMode) {
+    schema.eventAttendanceMode = `https://schema.org/${attendanceMode}`;
+  }
+  if (previousStartDate) {
+    schema.previousStartDate = previousStartDate;
+  }
+  if (offers) {
+    schema.offers = Array.isArray(offers) ? offers.map(buildOffer) : buildOffer(offers);
+  }
+  if (performer) {
+    schema.performer = Array.isArray(performer)
+      ? performer.map((item) => buildAgentOrReference(item, 'Person'))
+      : buildAgentOrReference(performer, 'Person');
+  }
+  if (organizer) {
+    schema.organizer = buildAgentOrReference(organizer, 'Organization');
+  }
+
+  return schema;
+}
+
+/**
+ * Creates a WebSite schema, the root of a site's page graph
+ *
+ * With `searchUrlTemplate` set, a SearchAction is added. Its `query-input` is
+ * derived from the `{placeholder}` in the template.
+ *
+ * @param options - WebSite schema options
+ * @returns JSON-LD schema object
+ *
+ * @example
+ * ```typescript
+ * import { createWebSiteSchema } from '@opensourceframework/next-json-ld';
+ *
+ * const schema = createWebSiteSchema({
+ *   name: 'Tech Blog',
+ *   url: 'https://example.com',
+ *   searchUrlTemplate: 'https://example.com/search?q={search_term_string}',
+ *   inLanguage: 'en-US',
+ *   publisher: 'Tech Blog Inc.',
+ * });
+ * ```
+ */
+export function createWebSiteSchema(options: WebSiteSchemaOptions): WebSiteJsonLd {
+  const {
+    name,
+    url,
+    description,
+    alternateName,
+    searchUrlTemplate,
+    inLanguage,
+    publisher,
+    id,
+  } = options;
+
+  const schema: WebSiteJsonLd = {
+    '@context': 'https://schema.org',
+    '@type': 'WebSite',
+    name,
+    url,
+  };
+
+  if (id) {
+    schema['@id'] = id;
+  }
+  if (description) {
+    schema.description = description;
+  }
+  if (alternateName && alternateName.length > 0) {
+    schema.alternateName = alternateName;
+  }
+  if (inLanguage) {
+    schema.inLanguage = inLanguage;
+  }
+  if (publisher) {
+    schema.publisher = buildPublisher(publisher, undefined);
+  }
+  if (searchUrlTemplate) {
+    const placeholder = SEARCH_PLACEHOLDER_PATTERN.exec(searchUrlTemplate)?.[1];
+    schema.potentialAction = {
+      '@type': 'SearchAction',
+      target: {
+        '@type': 'EntryPoint',
+        urlTemplate: searchUrlTemplate,
+      },
+      'query-input': `required name=${placeholder ?? 'search_term_string'}`,
+    };
+  }
+
+  return schema;
+}
+
+/**
+ * Creates a WebPage schema, or one of its subtypes
+ *
+ * @param options - WebPage schema options
+ * @returns JSON-LD schema object
+ *
+ * @example
+ * ```typescript
+ * import { createBreadcrumbSchema, createWebPageSchema } from '@opensourceframework/next-json-ld';
+ *
+ * const schema = createWebPageSchema({
+ *   type: 'CollectionPage',
+ *   name: 'Widgets',
+ *   url: 'https://example.com/products/widgets',
+ *   breadcrumb: createBreadcrumbSchema([
+ *     { name: 'Home', url: 'https://example.com' },
+ *     { name: 'Widgets', url: 'https://example.com/products/widgets' },
+ *   ]),
+ *   primaryImageOfPage: 'https://example.com/widgets.jpg',
+ *   datePublished: '2024-01-15',
+ * });
+ * ```
+ */
+export function createWebPageSchema(options: WebPageSchemaOptions): WebPageJsonLd {
+  const {
+    type = 'WebPage',
+    name,
+    url,
+    description,
+    breadcrumb,
+    primaryImageOfPage,
+    datePublished,
+    dateModified,
+    inLanguage,
+    isPartOf,
+    id,
+  } = options;
+
+  const schema: WebPageJsonLd = {
+    '@context': 'https://schema.org',
+    '@type': type,
+    name,
+    url,
+  };
+
+  if (id) {
+    schema['@id'] = id;
+  }
+  if (description) {
+    schema.description = description;
+  }
+  if (isPartOf) {
+    schema.isPartOf = { '@id': isPartOf['@id'] };
+  }
+  if (breadcrumb) {
+    schema.breadcrumb = buildBreadcrumbReference(breadcrumb);
+  }
+  if (primaryImageOfPage) {
+    schema.primaryImageOfPage = buildImageObject(primaryImageOfPage);
+  }
+  if (datePublished) {
+    schema.datePublished = datePublished;
+  }
+  if (dateModified) {
+    schema.dateModified = dateModified;
+  }
+  if (inLanguage) {
+    schema.inLanguage = inLanguage;
+  }
+
+  return schema;
+}
+
+/**
+ * Creates a Recipe schema
+ *
+ * Durations accept ISO 8601 strings or `{ days, hours, minutes }` objects.
+ * Instructions accept plain text steps, HowToStep details or HowToSection
+ * groups of steps.
+ *
+ * @param options - Recipe schema options
+ * @returns JSON-LD schema object
+ *
+ * @example
+ * ```typescript
+ * import { createRecipeSchema } from '@opensourceframework/next-json-ld';
+ *
+ * const schema = createRecipeSchema({
+ *   name: 'Banana Bread',
+ *   image: 'https://example.com/banana-bread.jpg',
+ *   author: 'Jane Smith',
+ *   prepTime: { minutes: 15 },
+ *   cookTime: { hours: 1 },
+ *   recipeYield: 8,
+ *   ingredients: ['3 ripe bananas', '2 cups of flour', '1/2 cup of sugar'],
+ *   instructions: ['Preheat the oven to 175°C.', 'Mash the bananas.', 'Bake for 1 hour.'],
+ *   nutrition: { calories: 240, fatContent: '9 g' },
+ *   aggregateRating: { ratingValue: 4.8, ratingCount: 120 },
+ * });
+ * ```
+ */
+export function createRecipeSchema(options: RecipeSchemaOptions): RecipeJsonLd {
+  const {
+    name,
+    image,
+    description,
+    author,
+    datePublished,
+    prepTime,
+    cookTime,
+    totalTime,
+    recipeYield,
+    recipeCategory,
+    recipeCuisine,
+    keywords,
+    ingredients,
+    instructions,
+    nutrition,
+    aggregateRating,
+    id,
+  } = options;
+
+  const schema: RecipeJsonLd = {
+    '@context': 'https://schema.org',
+    '@type': 'Recipe',
+    name,
+    image: buildImages(image),
+  };
+
+  if (id) {
+    schema['@id'] = id;
+  }
+  if (description) {
+    schema.description = description;
+  }
+  if (author) {
+    schema.author = buildAgentOrReference(author, 'Person');
+  }
+  if (datePublished) {
+    schema.datePublished = datePublished;
+  }
+  if (prepTime) {
+    schema.prepTime = buildDuration(prepTime);
+  }
+  if (cookTime) {
+    schema.cookTime = buildDuration(cookTime);
+  }
+  if (totalTime) {
+    schema.totalTime = buildDuration(totalTime);
+  }
+  if (recipeYield !== undefined) {
+    schema.recipeYield = recipeYield;
+  }
+  if (recipeCategory) {
+    schema.recipeCategory = recipeCategory;
+  }
+  if (recipeCuisine) {
+    schema.recipeCuisine = recipeCuisine;
+  }
+  if (keywords && keywords.length > 0) {
+    schema.keywords = keywords;
+  }
+  if (ingredients && ingredients.length > 0) {
+    schema.recipeIngredient = ingredients;
+  }
+  if (instructions && instructions.length > 0) {
+    schema.recipeInstructions = instructions.map(buildHowToInstruction);
+  }
+  if (nutrition) {
+    schema.nutrition = buildNutritionInformation(nutrition);
+  }
+  if (aggregateRating) {
+    schema.aggregateRating = buildAggregateRating(aggregateRating);
+  }
+
+  return schema;
+}
+
+/**
+ * Creates a HowTo schema for step-by-step guides
+ *
+ * @param options - HowTo schema options
+ * @returns JSON-LD schema object
+ *
+ * @example
+ * ```typescript
+ * import { createHowToSchema } from '@opensourceframework/next-json-ld';
+ *
+ * const schema = createHowToSchema({
+ *   name: 'How to Replace a Bike Tire',
+ *   totalTime: { minutes: 20 },
+ *   tools: ['Tire levers', 'Pump'],
+ *   supplies: ['Inner tube'],
+ *   steps: [
+ *     { name: 'Remove the wheel', text: 'Open the brake and release the wheel.' },
+ *     { name: 'Replace the tube', text: 'Lever the tire off and swap the tube.' },
+ *   ],
+ * });
+ * ```
+ */
+export function createHowToSchema(options: HowToSchemaOptions): HowToJsonLd {
+  const { name, steps, description, image, totalTime, estimatedCost, tools, supplies, id } =
+    options;
+
+  const schema: HowToJsonLd = {
+    '@context': 'https://schema.org',
+    '@type': 'HowTo',
+    name,
+    step: steps.map(buildHowToInstruction),
+  };
+
+  if (id) {
+    schema['@id'] = id;
+  }
+  if (description) {
+    schema.description = description;
+  }
+  if (image) {
+    schema.image = buildImages(image);
+  }
+  if (totalTime) {
+    schema.totalTime = buildDuration(totalTime);
+  }
+  if (estimatedCost) {
+    schema.estimatedCost = buildMonetaryAmount(estimatedCost);
+  }
+  if (tools && tools.length > 0) {
+    schema.tool = tools.map((tool) => ({ '@type': 'HowToTool', name: tool }));
+  }
+  if (supplies && supplies.length > 0) {
+    schema.supply = supplies.map((supply) => ({ '@type': 'HowToSupply', name: supply }));
+  }
+
+  return schema;
+}
+
+/**
+ * Creates a JobPosting schema for Google for Jobs
+ *
+ * Pass `jobLocation: 'TELECOMMUTE'` for fully remote jobs, together with
+ * `applicantLocationRequirements`.
+ *
+ * @param options - JobPosting schema options
+ * @returns JSON-LD schema object
+ *
+ * @example
+ * ```typescript
+ * import { createJobPostingSchema } from '@opensourceframework/next-json-ld';
+ *
+ * const schema = createJobPostingSchema({
+ *   title: 'Senior Frontend Engineer',
+ *   description: '<p>Build our Next.js storefront.</p>',
+ *   datePosted: '2024-03-01',
+ *   validThrough: '2024-04-30T00:00',
+ *   employmentType: 'FULL_TIME',
+ *   hiringOrganization: { name: 'Acme Inc', url: 'https://acme.com' },
+ *   jobLocation: { addressLocality: 'Berlin', addressCountry: 'DE' },
+ *   baseSalary: { currency: 'EUR', minValue: 70000, maxValue: 90000, unit: 'YEAR' },
+ *   identifier: { name: 'Acme Inc', value: 'FE-1234' },
+ * });
+ * ```
+ */
+export function createJobPostingSchema(options: JobPostingSchemaOptions): JobPostingJsonLd {
+  const {
+    title,
+    description,
+    datePosted,
+    hiringOrganization,
+    jobLocation,
+    applicantLocationRequirements,
+    validThrough,
+    employmentType,
+    baseSalary,
+    identifier,
+    id,
+  } = options;
+
+  const schema: JobPostingJsonLd = {
+    '@context': 'https://schema.org',
+    '@type': 'JobPosting',
+    title,
+    description,
+    datePosted,
+    hiringOrganization:
+      '@id' in hiringOrganization
+        ? { '@id': hiringOrganization['@id'] }
+        : buildOrganization(hiringOrganization, 'Organization'),
+  };
+
+  if (id) {
+    schema['@id'] = id;
+  }
+  if (jobLocation === 'TELECOMMUTE') {
+    schema.jobLocationType = 'TELECOMMUTE';
+  } else {
+    const locations = ([] as PostalAddress[]).concat(jobLocation).map(
+      (address): JobLocationJsonLd => ({
+        '@type': 'Place',
+        address: buildPostalAddress(address),
+      })
+    );
+    if (locations.length > 0) {
+      schema.jobLocation = locations.length === 1 ? locations[0] : locations;
+    }
+  }
+  if (applicantLocationRequirements) {
+    const areas = ([] as Array<string | ApplicantLocation>)
+      .concat(applicantLocationRequirements)
+      .map(
+        (area): AdministrativeAreaJsonLd =>
+          typeof area === 'string'
+            ? { '@type': 'Country', name: area }
+            : { '@type': area.type ?? 'Country', name: area.name }
+      );
+    if (areas.length > 0) {
+      schema.applicantLocationRequirements = areas.length === 1 ? areas[0] : areas;
+    }
+  }
+  if (validThrough) {
+    schema.validThrough = validThrough;
+  }
+  if (employmentType && employmentType.length > 0) {
+    schema.employmentType = employmentType;
+  }
+  if (baseSalary) {
+    schema.baseSalary = buildSalary(baseSalary);
+  }
+  if (identifier) {
+    schema.identifier = {
+      '@type': 'PropertyValue',
+      name: identifier.name,
+      value: identifier.value,
+    };
+  }
+
+  return schema;
+}
+
+/**
+ * Creates a Person schema
+ *
+ * Give the person an `id` to reference it from articles, reviews or a
+ * ProfilePage instead of repeating inline Person nodes.
+ *
+ * @param options - Person schema options
+ * @returns JSON-LD schema object
+ *
+ * @example
+ * ```typescript
+ * import { createPersonSchema } from '@opensourceframework/next-json-ld';
+ *
+ * const schema = createPersonSchema({
+ *   id: 'https://example.com/#jane',
+ *   name: 'Jane Smith',
+ *   url: 'https://example.com/authors/jane',
+ *   jobTitle: 'Editor in Chief',
+ *   worksFor: { '@id': 'https://example.com/#org' },
+ *   alumniOf: 'University of Oxford',
+ *   knowsAbout: ['TypeScript', 'Structured data'],
+ *   sameAs: ['https://twitter.com/janesmith'],
+ * });
+ * ```
+ */
+export function createPersonSchema(options: PersonSchemaOptions): PersonSchemaJsonLd {
+  return {
+    '@context': 'https://schema.org',
+    ...buildPerson(options),
+  };
+}
+
+/**
+ * Creates a ProfilePage schema for author and creator pages
+ *
+ * @param options - ProfilePage schema options
+ * @returns JSON-LD schema object
+ *
+ * @example
+ * ```typescript
+ * import { createProfilePageSchema } from '@opensourceframework/next-json-ld';
+ *
+ * const schema = createProfilePageSchema({
+ *   url: 'https://example.com/authors/jane',
+ *   dateCreated: '2020-01-15',
+ *   dateModified: '2024-03-01',
+ *   mainEntity: {
+ *     name: 'Jane Smith',
+ *     image: 'https://example.com/jane.jpg',
+ *     interactionStatistics: { followers: 1200, posts: 85 },
+ *   },
+ * });
+ * ```
+ */
+export function createProfilePageSchema(options: ProfilePageSchemaOptions): ProfilePageJsonLd {
+  const {
+    mainEntity,
+    url,
+    name,
+    dateCreated,
+    dateModified,
+    breadcrumb,
+    inLanguage,
+    isPartOf,
+    id,
+  } = options;
+
+  const schema: ProfilePageJsonLd = {
+    '@context': 'https://schema.org',
+    '@type': 'ProfilePage',
+    mainEntity: buildProfileEntity(mainEntity),
+  };
+
+  if (id) {
+    schema['@id'] = id;
+  }
+  if (url) {
+    schema.url = url;
+  }
+  if (name) {
+    schema.name = name;
+  }
+  if (isPartOf) {
+    schema.isPartOf = { '@id': isPartOf['@id'] };
+  }
+  if (breadcrumb) {
+    schema.breadcrumb = buildBreadcrumbReference(breadcrumb);
+  }
+  if (dateCreated) {
+    schema.dateCreated = dateCreated;
+  }
+  if (dateModified) {
+    schema.dateModified = dateModified;
+  }
+  if (inLanguage) {
+    schema.inLanguage = inLanguage;
+  }
+
+  return schema;
+}
+
+/**
+ * Creates an ImageObject schema with licensing metadata
+ *
+ * Google shows a "Licensable" badge in image search for images with a
+ * `license` or `acquireLicensePage`. The output can also be passed to any
+ * `image` or `logo` option, which otherwise take a plain URL.
+ *
+ * @param options - ImageObject schema options
+ * @returns JSON-LD schema object
+ *
+ * @example
+ * ```typescript
+ * import { createImageObjectSchema } from '@opensourceframework/next-json-ld';
+ *
+ * const schema = createImageObjectSchema({
+ *   url: 'https://example.com/photos/harbor.jpg',
+ *   width: 1200,
+ *   height: 800,
+ *   caption: 'The harbor at dawn',
+ *   creator: 'Jane Smith',
+ *   creditText: 'Jane Smith / Example Photos',
+ *   license: 'https://example.com/license',
+ *   acquireLicensePage: 'https://example.com/photos/harbor/buy',
+ * });
+ * ```
+ */
+export function createImageObjectSchema(
+  options: ImageObjectSchemaOptions
+): ImageObjectSchemaJsonLd {
+  const {
+    url,
+    width,
+    height,
+    caption,
+    name,
+    description,
+    creator,
+    creditText,
+    copyrightNotice,
+    license,
+    acquireLicensePage,
+    id,
+  } = options;
+
+  const schema: ImageObjectSchemaJsonLd = {
+    '@context': 'https://schema.org',
+    '@type': 'ImageObject',
+    url,
+    contentUrl: url,
+  };
+
+  if (id) {
+    schema['@id'] = id;
+  }
+  if (width !== undefined) {
+    schema.width = width;
+  }
+  if (height !== undefined) {
+    schema.height = height;
+  }
+  if (caption) {
+    schema.caption = caption;
+  }
+  if (name) {
+    schema.name = name;
+  }
+  if (description) {
+    schema.description = description;
+  }
+  if (creator) {
+    schema.creator = buildAgentOrReference(creator, 'Person');
+  }
+  if (creditText) {
+    schema.creditText = creditText;
+  }
+  if (copyrightNotice) {
+    schema.copyrightNotice = copyrightNotice;
+  }
+  if (license) {
+    schema.license = license;
+  }
+  if (acquireLicensePage) {
+    schema.acquireLicensePage = acquireLicensePage;
+  }
+
+  return schema;
+}
+
+/**
+ * Creates a VideoObject schema
+ *
+ * Key moments can be listed as `clips`, or left to Google with a
+ * `seekToUrlTemplate`.
+ *
+ * @param options - VideoObject schema options
+ * @returns JSON-LD schema object
+ *
+ * @example
+ * ```typescript
+ * import { createVideoObjectSchema } from '@opensourceframework/next-json-ld';
+ *
+ * const schema = createVideoObjectSchema({
+ *   name: 'Baking Banana Bread',
+ *   description: 'Step-by-step banana bread.',
+ *   thumbnailUrl: 'https://example.com/video/thumbnail.jpg',
+ *   uploadDate: '2024-03-01T08:00:00+00:00',
+ *   duration: { minutes: 12 },
+ *   contentUrl: 'https://example.com/video/banana-bread.mp4',
+ *   clips: [
+ *     { name: 'Ingredients', startOffset: 0, url: 'https://example.com/video?t=0' },
+ *     { name: 'Baking', startOffset: 420, url: 'https://example.com/video?t=420' },
+ *   ],
+ * });
+ * ```
+ */
+export function createVideoObjectSchema(options: VideoObjectSchemaOptions): VideoObjectJsonLd {
+  const {
+    name,
+    thumbnailUrl,
+    uploadDate,
+    description,
+    duration,
+    contentUrl,
+    embedUrl,
+    expires,
+    clips,
+    seekToUrlTemplate,
+    id,
+  } = options;
+
+  const schema: VideoObjectJsonLd = {
+    '@context': 'https://schema.org',
+    '@type': 'VideoObject',
+    name,
+    thumbnailUrl,
+    uploadDate,
+  };
+
+  if (id) {
+    schema['@id'] = id;
+  }
+  if (description) {
+    schema.description = description;
+  }
+  if (duration) {
+    schema.duration = buildDuration(duration);
+  }
+  if (contentUrl) {
+    schema.contentUrl = contentUrl;
+  }
+  if (embedUrl) {
+    schema.embedUrl = embedUrl;
+  }
+  if (expires) {
+    schema.expires = expires;
+  }
+  if (clips && clips.length > 0) {
+    schema.hasPart = clips.map(buildClip);
+  }
+  if (seekToUrlTemplate) {
+    schema.potentialAction = {
+      '@type': 'SeekToAction',
+      target: seekToUrlTemplate,
+      'startOffset-input': 'required name=seek_to_second_number',
+    };
+  }
+
+  return schema;
+}
+
+/**
+ * Creates a Course schema
+ *
+ * @param options - Course schema options
+ * @returns JSON-LD schema object
+ *
+ * @example
+ * ```typescript
+ * import { createCourseSchema } from '@opensourceframework/next-json-ld';
+ *
+ * const schema = createCourseSchema({
+ *   name: 'Introduction to TypeScript',
+ *   description: 'Learn TypeScript from the ground up.',
+ *   provider: { name: 'Code Academy', url: 'https://codeacademy.example' },
+ *   offers: { price: 49, priceCurrency: 'USD', category: 'Paid' },
+ *   hasCourseInstance: {
+ *     courseMode: 'Online',
+ *     courseSchedule: { duration: { hours: 2 }, repeatFrequency: 'Weekly', repeatCount: 8 },
+ *     instructor: 'Jane Smith',
+ *   },
+ * });
+ * ```
+ */
+export function createCourseSchema(options: CourseSchemaOptions): CourseJsonLd {
+  const {
+    name,
+    description,
+    provider,
+    url,
+    image,
+    inLanguage,
+    offers,
+    hasCourseInstance,
+    aggregateRating,
+    id,
+  } = options;
+
+  const schema: CourseJsonLd = {
+    '@context': 'https://schema.org',
+    '@type': 'Course',
+    name,
+    description,
+  };
+
+  if (id) {
+    schema['@id'] = id;
+  }
+  if (provider) {
+    schema.provider = buildServiceProvider(provider, 'Organization');
+  }
+  if (url) {
+    schema.url = url;
+  }
+  if (image) {
+    schema.image = buildImages(image);
+  }
+  if (inLanguage) {
+    schema.inLanguage = inLanguage;
+  }
+  if (offers) {
+    schema.offers = Array.isArray(offers)
+      ? offers.map(buildCourseOffer)
+      : buildCourseOffer(offers);
+  }
+  if (hasCourseInstance) {
+    schema.hasCourseInstance = Array.isArray(hasCourseInstance)
+      ? hasCourseInstance.map(buildCourseInstance)
+      : buildCourseInstance(hasCourseInstance);
+  }
+  if (aggregateRating) {
+    schema.aggregateRating = buildAggregateRating(aggregateRating);
+  }
+
+  return schema;
+}
+
+/**
+ * Creates a SoftwareApplication schema
+ *
+ * @param options - SoftwareApplication schema options
+ * @returns JSON-LD schema object
+ *
+ * @example
+ * ```typescript
+ * import { createSoftwareApplicationSchema } from '@opensourceframework/next-json-ld';
+ *
+ * const schema = createSoftwareApplicationSchema({
+ *   type: 'MobileApplication',
+ *   name: 'Habit Tracker',
+ *   applicationCategory: 'HealthApplication',
+ *   operatingSystem: ['iOS 16', 'Android 10'],
+ *   offers: { price: 0, priceCurrency: 'USD' },
+ *   aggregateRating: { ratingValue: 4.6, ratingCount: 8864 },
+ * });
+ * ```
+ */
+export function createSoftwareApplicationSchema(
+  options: SoftwareApplicationSchemaOptions
+): SoftwareApplicationJsonLd {
+  const {
+    type = 'SoftwareApplication',
+    name,
+    applicationCategory,
+    operatingSystem,
+    offers,
+    aggregateRating,
+    description,
+    url,
+    image,
+    softwareVersion,
+    downloadUrl,
+    id,
+  } = options;
+
+  const schema: SoftwareApplicationJsonLd = {
+    '@context': 'https://schema.org',
+    '@type': type,
+    name,
+  };
+
+  if (id) {
+    schema['@id'] = id;
+  }
+  if (applicationCategory) {
+    schema.applicationCategory = applicationCategory;
+  }
+  if (operatingSystem && operatingSystem.length > 0) {
+    // schema.org expects a single comma-separated list
+    schema.operatingSystem = ([] as string[]).concat(operatingSystem).join(', ');
+  }
+  if (offers) {
+    schema.offers = buildOffer(offers);
+  }
+  if (aggregateRating) {
+    schema.aggregateRating = buildAggregateRating(aggregateRating);
+  }
+  if (description) {
+    schema.description = description;
+  }
+  if (url) {
+    schema.url = url;
+  }
+  if (image) {
+    schema.image = buildImages(image);
+  }
+  if (softwareVersion) {
+    schema.softwareVersion = softwareVersion;
+  }
+  if (downloadUrl) {
+    schema.downloadUrl = downloadUrl;
+  }
+
+  return schema;
+}
+
+/**
+ * Creates a Book schema
+ *
+ * Editions are emitted as `workExample` nodes, each with its own ISBN and an
+ * optional ReadAction linking to the page where it can be read or bought.
+ *
+ * @param options - Book schema options
+ * @returns JSON-LD schema object
+ *
+ * @example
+ * ```typescript
+ * import { createBookSchema } from '@opensourceframework/next-json-ld';
+ *
+ * const schema = createBookSchema({
+ *   id: 'https://example.com/books/the-harbor',
+ *   name: 'The Harbor',
+ *   author: 'Jane Smith',
+ *   url: 'https://example.com/books/the-harbor',
+ *   editions: [
+ *     {
+ *       isbn: '9780000000001',
+ *       bookFormat: 'Hardcover',
+ *       readAction: { url: 'https://example.com/books/the-harbor/buy' },
+ *     },
+ *     { isbn: '9780000000002', bookFormat: 'EBook' },
+ *   ],
+ * });
+ * ```
+ */
+export function createBookSchema(options: BookSchemaOptions): BookJsonLd {
+  const { name, author, url, description, image, isbn, editions, sameAs, aggregateRating, id } =
+    options;
+
+  const schema: BookJsonLd = {
+    '@context': 'https://schema.org',
+    '@type': 'Book',
+    name,
+    author: Array.isArray(author)
+      ? author.map((item) => buildAgentOrReference(item, 'Person'))
+      : buildAgentOrReference(author, 'Person'),
+  };
+
+  if (id) {
+    schema['@id'] = id;
+  }
+  if (url) {
+    schema.url = url;
+  }
+  if (description) {
+    schema.description = description;
+  }
+  if (image) {
+    schema.image = buildImages(image);
+  }
+  if (isbn) {
+    schema.isbn = isbn;
+  }
+  if (editions && editions.length > 0) {
+    const workExamples = editions.map(buildBookEdition);
+    schema.workExample = workExamples.length === 1 ? workExamples[0] : workExamples;
+  }
+  if (sameAs && sameAs.length > 0) {
+    schema.sameAs = sameAs;
+  }
+  if (aggregateRating) {
+    schema.aggregateRating = buildAggregateRating(aggregateRating);
+  }
+
+  return schema;
+}
+
+/**
+ * Creates a Dataset schema for Google Dataset Search
+ *
+ * @param options - Dataset schema options
+ * @returns JSON-LD schema object
+ *
+ * @example
+ * ```typescript
+ * import { createDatasetSchema } from '@opensourceframework/next-json-ld';
+ *
+ * const schema = createDatasetSchema({
+ *   name: 'City Rainfall 2010-2020',
+ *   description: 'Daily rainfall measured at 42 weather stations across the city, 2010 to 2020.',
+ *   license: 'https://creativecommons.org/licenses/by/4.0/',
+ *   creator: 'City Weather Office',
+ *   distribution: [{ contentUrl: 'https://example.com/rain.csv', encodingFormat: 'text/csv' }],
+ *   temporalCoverage: { start: '2010-01-01', end: '2020-12-31' },
+ *   spatialCoverage: { city: 'Berlin', country: 'DE' },
+ *   variableMeasured: [{ name: 'Rainfall', unitText: 'mm' }],
+ *   includedInDataCatalog: { name: 'City Open Data', url: 'https://example.com/data' },
+ * });
+ * ```
+ */
+export function createDatasetSchema(options: DatasetSchemaOptions): DatasetJsonLd {
+  const {
+    name,
+    description,
+    url,
+    license,
+    creator,
+    keywords,
+    identifier,
+    version,
+    isAccessibleForFree,
+    distribution,
+    temporalCoverage,
+    spatialCoverage,
+    variableMeasured,
+    includedInDataCatalog,
+    id,
+  } = options;
+
+  const schema: DatasetJsonLd = {
+    '@context': 'https://schema.org',
+    '@type': 'Dataset',
+    name,
+    description,
+  };
+
+  if (id) {
+    schema['@id'] = id;
+  }
+  if (url) {
+    schema.url = url;
+  }
+  if (license) {
+    schema.license = license;
+  }
+  if (creator) {
+    schema.creator = Array.isArray(creator)
+      ? creator.map((item) => buildAgentOrReference(item, 'Organization'))
+      : buildAgentOrReference(creator, 'Organization');
+  }
+  if (keywords && keywords.length > 0) {
+    schema.keywords = keywords;
+  }
+  if (identifier) {
+    schema.identifier = identifier;
+  }
+  if (version) {
+    schema.version = version;
+  }
+  if (isAccessibleForFree !== undefined) {
+    schema.isAccessibleForFree = isAccessibleForFree;
+  }
+  if (distribution && distribution.length > 0) {
+    schema.distribution = distribution.map((file) => {
+      const node: DataDownloadJsonLd = { '@type': 'DataDownload', contentUrl: file.contentUrl };
+      if (file.encodingFormat) {
+        node.encodingFormat = file.encodingFormat;
+      }
+      return node;
+    });
+  }
+  if (temporalCoverage) {
+    schema.temporalCoverage =
+      typeof temporalCoverage === 'string'
+        ? temporalCoverage
+        : `${temporalCoverage.start}/${temporalCoverage.end ?? '..'}`;
+  }
+  const coverage = spatialCoverage && buildSpatialCoverage(spatialCoverage);
+  if (coverage) {
+    schema.spatialCoverage = coverage;
+  }
+  if (variableMeasured && variableMeasured.length > 0) {
+    schema.variableMeasured = variableMeasured.map(buildVariableMeasured);
+  }
+  if (includedInDataCatalog) {
+    const catalog =
+      typeof includedInDataCatalog === 'string'
+        ? { name: includedInDataCatalog }
+        : includedInDataCatalog;
+    schema.includedInDataCatalog = { '@type': 'DataCatalog', name: catalog.name };
+    if (catalog.url) {
+      schema.includedInDataCatalog.url = catalog.url;
+    }
+  }
+
+  return schema;
+}
+
+/**
+ * Creates an ItemList schema for carousels on listing pages
+ *
+ * In summary mode, `urls` lists the detail pages, which carry their own
+ * markup. In all-in-one mode, `items` embeds the schemas built by the other
+ * generators (without their `@context`), all on the listing page.
+ *
+ * @param options - ItemList schema options
+ * @returns JSON-LD schema object
+ *
+ * @example
+ * ```typescript
+ * import { createItemListSchema, createRecipeSchema } from '@opensourceframework/next-json-ld';
+ *
+ * // Summary mode, second page of 10
+ * const summary = createItemListSchema({
+ *   urls: ['https://example.com/recipes/banana-bread', 'https://example.com/recipes/scones'],
+ *   numberOfItems: 42,
+ *   pagination: { page: 2, pageSize: 10 },
+ * });
+ *
+ * // All-in-one mode
+ * const allInOne = createItemListSchema({
+ *   itemListOrder: 'Descending',
+ *   items: recipes.map((recipe) => createRecipeSchema(recipe)),
+ * });
+ * ```
+ */
+export function createItemListSchema(options: ItemListSchemaOptions): ItemListJsonLd {
+  const { name, url, itemListOrder, numberOfItems, pagination, id } = options;
+  const start = pagination ? (pagination.page - 1) * pagination.pageSize + 1 : 1;
+
+  const schema: ItemListJsonLd = {
+    '@context': 'https://schema.org',
+    '@type': 'ItemList',
+    itemListElement: options.items
+      ? options.items.map((item, index) => ({
+          '@type': 'ListItem',
+          position: start + index,
+          item: withoutContext(item),
+        }))
+      : options.urls.map((itemUrl, index) => ({
+          '@type': 'ListItem',
+          position: start + index,
+          url: itemUrl,
+        })),
+  };
+
+  if (id) {
+    schema['@id'] = id;
+  }
+  if (name) {
+    schema.name = name;
+  }
+  if (url) {
+    schema.url = url;
+  }
+  if (itemListOrder) {
+    schema.itemListOrder = `https://schema.org/ItemListOrder${itemListOrder}`;
+  }
+  if (numberOfItems !== undefined) {
+    schema.numberOfItems = numberOfItems;
+  }
+
+  return schema;
+}
+
+/**
+ * Creates a QAPage schema for a community question and its answers
+ *
+ * Unlike createFAQSchema, which is meant for editor-written answers, the
+ * question can have several suggested answers from users, with an optional
+ * accepted answer.
+ *
+ * @param options - QAPage schema options
+ * @returns JSON-LD schema object
+ *
+ * @example
+ * ```typescript
+ * import { createQAPageSchema } from '@opensourceframework/next-json-ld';
+ *
+ * const schema = createQAPageSchema({
+ *   question: {
+ *     name: 'How do I reset my router?',
+ *     text: 'The lights keep blinking after a power cut.',
+ *     author: 'Alex',
+ *     datePublished: '2024-03-01',
+ *     acceptedAnswer: {
+ *       text: 'Hold the reset button for 10 seconds.',
+ *       author: 'Sam',
+ *       datePublished: '2024-03-01',
+ *       url: 'https://example.com/questions/42#answer-1',
+ *       upvoteCount: 12,
+ *     },
+ *   },
+ * });
+ * ```
+ */
+export function createQAPageSchema(options: QAPageSchemaOptions): QAPageJsonLd {
+  const { question, id } = options;
+  const { name, text, author, datePublished, upvoteCount, acceptedAnswer, suggestedAnswers } =
+    question;
+
+  const mainEntity: CommunityQuestionJsonLd = {
+    '@type': 'Question',
+    name,
+    answerCount:
+      question.answerCount ?? (suggestedAnswers?.length ?? 0) + (acceptedAnswer ? 1 : 0),
+  };
+
+  if (text) {
+    mainEntity.text = text;
+  }
+  if (author) {
+    mainEntity.author = buildAgentOrReference(author, 'Person');
+  }
+  if (datePublished) {
+    mainEntity.datePublished = datePublished;
+  }
+  if (upvoteCount !== undefined) {
+    mainEntity.upvoteCount = upvoteCount;
+  }
+  if (acceptedAnswer) {
+    mainEntity.acceptedAnswer = buildCommunityAnswer(acceptedAnswer);
+  }
+  if (suggestedAnswers && suggestedAnswers.length > 0) {
+    mainEntity.suggestedAnswer = suggestedAnswers.map(buildCommunityAnswer);
+  }
+
+  const schema: QAPageJsonLd = {
+    '@context': 'https://schema.org',
+    '@type': 'QAPage',
+    mainEntity,
+  };
+
+  if (id) {
+    schema['@id'] = id;
+  }
+
+  return schema;
+}
+
+/**
+ * Creates a DiscussionForumPosting schema for a forum thread
+ *
+ * @param options - DiscussionForumPosting schema options
+ * @returns JSON-LD schema object
+ *
+ * @example
+ * ```typescript
+ * import { createDiscussionForumPostingSchema } from '@opensourceframework/next-json-ld';
+ *
+ * const schema = createDiscussionForumPostingSchema({
+ *   headline: 'Best trails near Berlin?',
+ *   text: 'Looking for day hikes reachable by train.',
+ *   author: 'Alex',
+ *   datePublished: '2024-03-01T09:00:00+01:00',
+ *   url: 'https://example.com/forum/trails',
+ *   interactionStatistics: { likes: 14, views: 320, comments: 2 },
+ *   comments: [
+ *     {
+ *       text: 'Try the Grunewald loop.',
+ *       author: 'Sam',
+ *       datePublished: '2024-03-01T10:00:00+01:00',
+ *       replies: [{ text: 'Seconded!', author: 'Kim', datePublished: '2024-03-02' }],
+ *     },
+ *   ],
+ * });
+ * ```
+ */
+export function createDiscussionForumPostingSchema(
+  options: DiscussionForumPostingSchemaOptions
+): DiscussionForumPostingJsonLd {
+  const {
+    text,
+    author,
+    datePublished,
+    headline,
+    dateModified,
+    url,
+    image,
+    comments,
+    interactionStatistics,
+    id,
+  } = options;
+
+  const schema: DiscussionForumPostingJsonLd = {
+    '@context': 'https://schema.org',
+    '@type': 'DiscussionForumPosting',
+    text,
+    author: buildAgentOrReference(author, 'Person'),
+    datePublished,
+  };
+
+  if (id) {
+    schema['@id'] = id;
+  }
+  if (headline) {
+    schema.headline = headline;
+  }
+  if (dateModified) {
+    schema.dateModified = dateModified;
+  }
+  if (url) {
+    schema.url = url;
+  }
+  if (image) {
+    schema.image = buildImages(image);
+  }
+  if (comments && comments.length > 0) {
+    schema.comment = comments.map(buildComment);
+  }
+  const statistics = interactionStatistics && buildPostInteractions(interactionStatistics);
+  if (statistics) {
+    schema.interactionStatistic = statistics;
+  }
+
+  return schema;
+}
+
+// ============================================================================
+// Utility Functions
+// ============================================================================
+
+/**
+ * Merges multiple JSON-LD schemas into a single array
+ * Useful when a page has multiple structured data types
+ *
+ * With `graph: true` the schemas are combined into a single
+ * `{ '@context', '@graph' }` document instead. Inner `@context` keys are
+ * removed and nodes that share an `@id` are merged into one: the first node
+ * keeps its position, properties are added in input order, arrays are
+ * combined without duplicates and nested objects are merged recursively.
+ * When two nodes disagree on a value the first one wins and the conflict is
+ * passed to `onConflict`. The input schemas are not modified.
+ * 
+ * @param schemas - Array of JSON-LD schemas
+ * @param options - Merge options
+ * @returns Array of JSON-LD schemas, or a @graph document when `graph` is set
+ *
+ * @example
+ * ```typescript
+ * import { mergeSchemas, createOrganizationSchema, createFAQSchema } from '@opensourceframework/next-json-ld';
+ * 
+ * const combined = mergeSchemas([
+ *   createOrganizationSchema({ organization: { name: 'My Business', url: 'https://...' } }),
+ *   createFAQSchema([{ question: '...', answer: '...' }]),
+ * ]);
+ *
+ * const graph = mergeSchemas([organizationSchema, breadcrumbSchema, faqSchema], {
+ *   graph: true,
+ *   onConflict: (conflict) => console.warn(`Conflicting ${conflict.path} on ${conflict.id}`),
+ * });
+ * ```
+ */
+export function mergeSchemas(schemas: JSONLDSchema[]): JSONLDSchema[];
+export function mergeSchemas(
+  schemas: Array<JSONLDSchema | JSONLDGraph>,
+  options: MergeSchemasOptions & { graph: true }
+): JSONLDGraph;
+export function mergeSchemas(
+  schemas: JSONLDSchema[],
+  options?: MergeSchemasOptions
+): JSONLDSchema[] | JSONLDGraph;
+export function mergeSchemas(
+  schemas: Array<JSONLDSchema | JSONLDGraph>,
+  options: MergeSchemasOptions = {}
+): JSONLDSchema[] | JSONLDGraph {
+  if (!options.graph) {
+    return schemas as JSONLDSchema[];
+  }
+
+  const nodes: JSONLDNode[] = [];
+  const nodesById = new Map<string, JSONLDNode>();
+
+  const inputNodes = schemas.flatMap((schema) =>
+    '@graph' in schema ? schema['@graph'] : [schema as JSONLDNode]
+  );
+
+  for (const input of inputNodes) {
+    const node = stripContext(input) as JSONLDNode;
+    const id = node['@id'];
+
+    if (typeof id === 'string') {
+      const existing = nodesById.get(id);
+      if (existing) {
+        mergeNodeProperties(existing, node, id, '', options.onConflict);
+        continue;
+      }
+      nodesById.set(id, node);
+    }
+
+    nodes.push(node);
+  }
+
+  return {
+    '@context': 'https://schema.org',
+    '@graph': nodes,
+  };
+}
+
+/**
+ * Creates a registry of site-wide entities such as the Organization, WebSite
+ * and authors
+ *
+ * Each entity gets a stable @id: its own `@id`, or one derived from `baseUrl`
+ * and its key. Generators accept `ref(key)` wherever a provider, publisher,
+ * author or organizer is expected, and `graph()` emits the schemas with one
+ * definition of each referenced entity (including entities referenced by
+ * other entities), following the Yoast-style graph pattern.
+ *
+ * @param entities - Entity definitions by key
+ * @param options - Registry options
+ * @returns Entity registry
+ * @throws Error if an entity has no @id and no baseUrl is given
+ *
+ * @example
+ * ```typescript
+ * import {
+ *   createArticleSchema,
+ *   createEntityRegistry,
+ *   createOrganizationSchema,
+ * } from '@opensourceframework/next-json-ld';
+ *
+ * const { ref, graph } = createEntityRegistry(
+ *   {
+ *     org: createOrganizationSchema({
+ *       organization: { name: 'Tech Blog', url: 'https://example.com' },
+ *       type: 'Organization',
+ *     }),
+ *     jane: { '@type': 'Person', name: 'Jane Smith' },
+ *   },
+ *   { baseUrl: 'https://example.com' }
+ * );
+ *
+ * const schema = graph([
+ *   createArticleSchema({
+ *     headline: 'How to Build Accessible Websites',
+ *     datePublished: '2024-01-15',
+ *     author: ref('jane'),
+ *     publisher: ref('org'),
+ *   }),
+ * ]);
+ * // { '@context', '@graph': [Organization, Person, Article] }
+ * ```
+ */
+export function createEntityRegistry<K extends string>(
+  entities: Record<K, JSONLDNode>,
+  options: EntityRegistryOptions = {}
+): EntityRegistry<K> {
+  const baseUrl = options.baseUrl?.replace(/\/+$/, '');
+  const definitions = new Map<string, { id: string; schema: JSONLDSchema }>();
+
+  for (const key of Object.keys(entities) as K[]) {
+    const entity = entities[key];
+    const id = entity['@id'] ?? (baseUrl ? `${baseUrl}/#${key}` : undefined);
+    if (!id) {
+      throw new Error(`Entity "${key}" has no @id: set one or pass a baseUrl`);
+    }
+    definitions.set(key, {
+      id,
+      schema: { '@context': 'https://schema.org', ...entity, '@id': id },
+    });
+  }
+
+  const lookup = (key: K) => {
+    const definition = definitions.get(key);
+    if (!definition) {
+      throw new Error(`Unknown entity "${key}"`);
+    }
+    return definition;
+  };
+
+  return {
+    ref: (key) => ({ '@id': lookup(key).id }),
+    get: (key) => lookup(key).schema,
+    graph: (schemas, graphOptions = {}) => {
+      // Add referenced entities until no new references are found
+      const referenced = collectNodeIds(schemas, new Set());
+      const included = new Set<JSONLDSchema>();
+      let added = true;
+      while (added) {
+        added = false;
+        for (const { id, schema } of definitions.values()) {
+          if (!included.has(schema) && referenced.has(id)) {
+            included.add(schema);
+            collectNodeIds(schema, referenced);
+            added = true;
+          }
+        }
+      }
+
+      const entitySchemas = [...definitions.values()]
+        .map(({ schema }) => schema)
+        .filter((schema) => included.has(schema));
+
+      return mergeSchemas([...entitySchemas, ...schemas], { ...graphOptions, graph: true });
+    },
+  };
+}
+
+/**
+ * Parses opening hours in the compact schema.org format
+ *
+ * Rules are separated by `;`. Each rule lists days (`Mo`, `Tu`, `We`, `Th`,
+ * `Fr`, `Sa`, `Su`) as single days, ranges or comma-separated lists, followed
+ * by one or more comma-separated `HH:MM-HH:MM` ranges, or `closed`.
+ *
+ * @param input - Opening hours string (e.g., 'Mo-Fr 09:00-18:00; Sa 10:00-14:00')
+ * @returns Array of opening hours specifications
+ * @throws Error if a rule or time cannot be parsed
+ *
+ * @example
+ * ```typescript
+ * import { parseOpeningHours } from '@opensourceframework/next-json-ld';
+ *
+ * parseOpeningHours('Mo-Fr 09:00-12:00,13:00-18:00; Sa 10:00-14:00; Su closed');
+ * // [
+ * //   { dayOfWeek: ['Monday', ..., 'Friday'], opens: '09:00', closes: '12:00' },
+ * //   { dayOfWeek: ['Monday', ..., 'Friday'], opens: '13:00', closes: '18:00' },
+ * //   { dayOfWeek: ['Saturday'], opens: '10:00', closes: '14:00' },
+ * //   { dayOfWeek: ['Sunday'], closed: true },
+ * // ]
+ * ```
+ */
+export function parseOpeningHours(input: string): OpeningHours[] {
+  return input
+    .split(';')
+    .map((rule) => rule.trim())
+    .filter((rule) => rule.length > 0)
+    .flatMap(parseOpeningHoursRule);
+}
+
+/**
+ * Sanitizes HTML for use in text properties such as FAQ answers, review
+ * bodies and descriptions
+ *
+ * In allowlist mode, allowed tags are kept without their attributes (except a
+ * safe `href` on links), other tags are removed and stray `<` and `>` are
+ * escaped. In strip mode, entities are decoded first and all tags, including
+ * those that were encoded, are then removed, leaving plain text. In both
+ * modes, comments and the content of `script`, `style`, `template`,
+ * `noscript` and `iframe` elements are dropped, and whitespace is collapsed.
+ *
+ * @param html - HTML to sanitize
+ * @param options - Sanitization options
+ * @returns Sanitized HTML, or plain text in strip mode
+ *
+ * @example
+ * ```typescript
+ * import { sanitizeHtml } from '@opensourceframework/next-json-ld';
+ *
+ * sanitizeHtml('<p class="lead">See <a href="/faq" onclick="x()">the <span>FAQ</span></a></p>');
+ * // '<p>See <a href="/faq">the FAQ</a></p>'
+ *
+ * sanitizeHtml('<p>Fish &amp; chips</p><p>Daily</p>', { mode: 'strip' });
+ * // 'Fish & chips Daily'
+ * ```
+ */
+export function sanitizeHtml(html: string, options: SanitizeHtmlOptions = {}): string {
+  const { mode = 'allowlist', allowedTags = DEFAULT_ALLOWED_HTML_TAGS } = options;
+  const allowed = new Set(mode === 'strip' ? [] : allowedTags.map((tag) => tag.toLowerCase()));
+  let droppedUntil: string | undefined;
+
+  // Decoding after removing tags would turn encoded markup into live tags
+  return (mode === 'strip' ? decodeHtmlEntities(html) : html)
+    .replace(
+      HTML_TOKEN_PATTERN,
+      (
+        token: string,
+        slash: string | undefined,
+        tagName: string | undefined,
+        attributes = '',
+        offset: number,
+        input: string
+      ): string => {
+        const name = tagName?.toLowerCase();
+
+        if (droppedUntil) {
+          if (slash && name === droppedUntil) {
+            droppedUntil = undefined;
+          }
+          return '';
+        }
+        if (token.startsWith('<!--')) {
+          return '';
+        }
+        if (!name) {
+          if (mode !== 'strip') {
+            return escapeHtmlText(token);
+          }
+          // Drop a stray `<` that could start a tag, e.g. in an unterminated one
+          return token === '<' && /[a-zA-Z/!?]/.test(input.charAt(offset + 1)) ? '' : token;
+        }
+        if (HTML_DROPPED_CONTENT_TAGS.has(name)) {
+          if (!slash) {
+            droppedUntil = name;
+          }
+          return '';
+        }
+        if (allowed.has(name)) {
+          if (slash) {
+            return name === 'br' ? '' : `</${name}>`;
+          }
+          return buildAllowedHtmlTag(name, attributes);
+        }
+        // Keep words on either side of a removed block element apart
+        return HTML_BLOCK_TAGS.has(name) ? ' ' : '';
+      }
+    )
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+/**
+ * Reports an issue for a property of the node being checked
+ */
+type ValidationReporter = (property: string, severity: ValidationSeverity, message: string) => void;
+
+/**
+ * Validation rules for a single schema.org type
+ */
+interface ValidationRuleSet {
+  /** Properties required for the rich result */
+  required?: string[];
+  /** Groups of properties of which at least one is required */
+  requiredOneOf?: string[][];
+  /** Properties recommended for the rich result */
+  recommended?: string[];
+  /** Additional checks on property values */
+  check?: (node: Record<string, unknown>, report: ValidationReporter) => void;
+  /** Properties inherited by the nodes nested under a given property */
+  inherited?: Record<string, string[]>;
+  /** Rule sets replacing those of a type for the nodes directly under a given property */
+  nestedRules?: Record<string, Record<string, ValidationRuleSet>>;
+}
+
+/**
+ * Rule sets based on Google's structured data documentation
+ */
+const VALIDATION_RULES: Record<string, ValidationRuleSet> = {
+  Organization: {
+    required: ['name'],
+    recommended: ['url', 'logo', 'sameAs'],
+  },
+  LocalBusiness: {
+    required: ['name', 'address'],
+    recommended: ['url', 'telephone', 'image', 'openingHoursSpecification', 'priceRange'],
+  },
+  Service: {
+    required: ['name', 'provider'],
+    recommended: ['description', 'url', 'serviceType', 'areaServed'],
+    // The provider is not a rich result itself, so it needs no address
+    nestedRules: {
+      provider: {
+        LocalBusiness: { required: ['name'], recommended: ['url', 'address', 'telephone'] },
+      },
+    },
+  },
+  FAQPage: {
+    required: ['mainEntity'],
+  },
+  Question: {
+    required: ['name', 'acceptedAnswer'],
+  },
+  QAPage: {
+    required: ['mainEntity'],
+    // Unlike FAQ questions, community questions may only have suggested answers
+    nestedRules: {
+      mainEntity: {
+        Question: {
+          required: ['name'],
+          requiredOneOf: [['acceptedAnswer', 'suggestedAnswer']],
+        },
+      },
+    },
+  },
+  DiscussionForumPosting: {
+    required: ['author', 'datePublished'],
+    requiredOneOf: [['text', 'image', 'video']],
+    recommended: ['headline', 'url'],
+  },
+  Comment: {
+    required: ['author', 'datePublished'],
+    requiredOneOf: [['text', 'image', 'video']],
+  },
+  Answer: {
+    required: ['text'],
+  },
+  BreadcrumbList: {
+    required: ['itemListElement'],
+    check: (node, report) => {
+      const items = node.itemListElement;
+      if (!Array.isArray(items)) {
+        return;
+      }
+      if (items.length < 2) {
+        report(
+          'itemListElement',
+          'warning',
+          'BreadcrumbList "itemListElement" should contain at least two ListItems'
+        );
+      }
+      items.forEach((item, index) => {
+        if (!isPlainObject(item)) {
+          return;
+        }
+        if (isMissing(item.name)) {
+          report(`itemListElement[${index}].name`, 'error', 'ListItem is missing required property "name"');
+        }
+        if (index < items.length - 1 && isMissing(item.item)) {
+          report(
+            `itemListElement[${index}].item`,
+            'error',
+            'ListItem is missing required property "item" (only the last breadcrumb may omit it)'
+          );
+        }
+      });
+    },
+  },
+  ListItem: {
+    required: ['position'],
+  },
+  ItemList: {
+    required: ['itemListElement'],
+    check: (node, report) => {
+      const elements = node.itemListElement;
+      if (!Array.isArray(elements)) {
+        return;
+      }
+      elements.forEach((element, index) => {
+        if (!isPlainObject(element)) {
+          return;
+        }
+        if (isPlainObject(element.item)) {
+          if (isMissing(element.item.url)) {
+            report(
+              `itemListElement[${index}].item.url`,
+              'error',
+              'Items embedded in an ItemList require a "url" to their detail page'
+            );
+          }
+        } else if (isMissing(element.url)) {
+          report(
+            `itemListElement[${index}].url`,
+            'error',
+            'ItemList ListItems require a "url" or an embedded "item"'
+          );
+        }
+      });
+    },
+  },
+  Product: {
+    required: ['name'],
+    requiredOneOf: [['offers', 'review', 'aggregateRating']],
+    recommended: ['image', 'description', 'brand', 'sku'],
+  },
+  ProductGroup: {
+    required: ['name', 'hasVariant'],
+    recommended: ['productGroupID', 'variesBy', 'description', 'brand'],
+    inherited: {
+      hasVariant: ['image', 'description', 'brand', 'aggregateRating', 'review'],
+    },
+  },
+  Offer: {
+    required: ['price', 'priceCurrency'],
+    recommended: ['availability'],
+  },
+  AggregateOffer: {
+    required: ['lowPrice', 'priceCurrency'],
+    recommended: ['highPrice', 'offerCount'],
+  },
+  OfferShippingDetails: {
+    required: ['shippingRate', 'shippingDestination'],
+    recommended: ['deliveryTime'],
+  },
+  DefinedRegion: {
+    required: ['addressCountry'],
+  },
+  MonetaryAmount: {
+    required: ['currency'],
+    requiredOneOf: [['value', 'minValue', 'maxValue']],
+  },
+  MerchantReturnPolicy: {
+    required: ['applicableCountry', 'returnPolicyCategory'],
+    check: (node, report) => {
+      if (
+        node.returnPolicyCategory === 'https://schema.org/MerchantReturnFiniteReturnWindow' &&
+        isMissing(node.merchantReturnDays)
+      ) {
+        report(
+          'merchantReturnDays',
+          'error',
+          'MerchantReturnPolicy is missing "merchantReturnDays" required for a finite return window'
+        );
+      }
+    },
+  },
+  Person: {
+    required: ['name'],
+  },
+  ProfilePage: {
+    required: ['mainEntity'],
+    recommended: ['dateCreated', 'dateModified'],
+  },
+  ImageObject: {
+    requiredOneOf: [['url', 'contentUrl']],
+  },
+  VideoObject: {
+    required: ['name', 'thumbnailUrl', 'uploadDate'],
+    requiredOneOf: [['contentUrl', 'embedUrl']],
+    recommended: ['description', 'duration'],
+    check: (node, report) => checkDurations(node, ['duration'], report),
+  },
+  Clip: {
+    required: ['name', 'startOffset', 'url'],
+  },
+  Course: {
+    required: ['name', 'description'],
+    recommended: ['provider', 'offers', 'hasCourseInstance'],
+  },
+  CourseInstance: {
+    required: ['courseMode'],
+    requiredOneOf: [['courseWorkload', 'courseSchedule']],
+    recommended: ['instructor'],
+    check: (node, report) => checkDurations(node, ['courseWorkload'], report),
+  },
+  Schedule: {
+    required: ['duration', 'repeatFrequency', 'repeatCount'],
+    check: (node, report) => checkDurations(node, ['duration'], report),
+  },
+  SoftwareApplication: {
+    required: ['name', 'offers'],
+    requiredOneOf: [['aggregateRating', 'review']],
+    recommended: ['applicationCategory', 'operatingSystem'],
+  },
+  Book: {
+    required: ['name', 'author'],
+    recommended: ['url', 'workExample'],
+    // Editions are Book nodes too, described by the work they belong to
+    inherited: { workExample: ['name', 'author', 'url', 'workExample'] },
+  },
+  ReadAction: {
+    required: ['target'],
+  },
+  Dataset: {
+    required: ['name', 'description'],
+    recommended: ['url', 'license', 'creator', 'distribution'],
+    // Coverage areas may be described by their coordinates alone
+    nestedRules: {
+      spatialCoverage: {
+        Place: { requiredOneOf: [['address', 'geo']], recommended: ['name'] },
+      },
+    },
+    check: (node, report) => {
+      const { description } = node;
+      const { min, max } = DATASET_DESCRIPTION_LENGTH;
+
+      if (
+        typeof description === 'string' &&
+        (description.length < min || description.length > max)
+      ) {
+        report(
+          'description',
+          'error',
+          `Dataset "description" must be ${min} to ${max} characters long, got ${description.length}`
+        );
+      }
+    },
+  },
+  DataDownload: {
+    required: ['contentUrl'],
+    recommended: ['encodingFormat'],
+  },
+  DataCatalog: {
+    required: ['name'],
+  },
+  SeekToAction: {
+    required: ['target', 'startOffset-input'],
+    check: (node, report) => {
+      if (typeof node.target === 'string' && !node.target.includes('{seek_to_second_number}')) {
+        report(
+          'target',
+          'error',
+          'SeekToAction "target" must contain the {seek_to_second_number} placeholder'
+        );
+      }
+    },
+  },
+  Review: {
+    required: ['author', 'reviewRating'],
+    recommended: ['datePublished', 'reviewBody'],
+  },
+  Rating: {
+    required: ['ratingValue'],
+    check: (node, report) => checkRatingRange(node, 'Rating', report),
+  },
+  AggregateRating: {
+    required: ['ratingValue'],
+    requiredOneOf: [['ratingCount', 'reviewCount']],
+    check: (node, report) => checkRatingRange(node, 'AggregateRating', report),
+  },
+  Article: {
+    required: ['headline'],
+    recommended: ['image', 'datePublished', 'dateModified', 'author', 'publisher'],
+  },
+  Event: {
+    required: ['name', 'startDate', 'location'],
+    recommended: [
+      'description',
+      'endDate',
+      'image',
+      'eventStatus',
+      'offers',
+      'organizer',
+      'performer',
+    ],
+    check: (node, report) => {
+      const mode = node.eventAttendanceMode;
+      const locationTypes = ([] as unknown[])
+        .concat(node.location)
+        .map((location) => (isPlainObject(location) ? location['@type'] : undefined));
+
+      if (
+        !isMissing(node.location) &&
+        (mode === 'https://schema.org/OnlineEventAttendanceMode' ||
+          mode === 'https://schema.org/MixedEventAttendanceMode') &&
+        !locationTypes.includes('VirtualLocation')
+      ) {
+        report(
+          'location',
+          'error',
+          'Online and mixed events require a VirtualLocation "location"'
+        );
+      }
+      if (
+        node.eventStatus === 'https://schema.org/EventRescheduled' &&
+        isMissing(node.previousStartDate)
+      ) {
+        report(
+          'previousStartDate',
+          'warning',
+          'Rescheduled events should set "previousStartDate" to the original start date'
+        );
+      }
+    },
+  },
+  Place: {
+    required: ['address'],
+    recommended: ['name'],
+  },
+  VirtualLocation: {
+    required: ['url'],
+  },
+  WebSite: {
+    required: ['name', 'url'],
+  },
+  SearchAction: {
+    required: ['target', 'query-input'],
+    check: (node, report) => {
+      const target = node.target;
+      const urlTemplate = isPlainObject(target) ? target.urlTemplate : target;
+      const queryInput = node['query-input'];
+      const placeholder =
+        typeof queryInput === 'string' ? /name=(\S+)/.exec(queryInput)?.[1] : undefined;
+
+      if (
+        typeof urlTemplate === 'string' &&
+        placeholder &&
+        !urlTemplate.includes(`{${placeholder}}`)
+      ) {
+        report(
+          'target',
+          'error',
+          `SearchAction "target" must contain the {${placeholder}} placeholder from "query-input"`
+        );
+      }
+    },
+  },
+  WebPage: {
+    required: ['url'],
+    recommended: ['name'],
+  },
+  Recipe: {
+    required: ['name', 'image'],
+    recommended: [
+      'author',
+      'datePublished',
+      'description',
+      'prepTime',
+      'cookTime',
+      'totalTime',
+      'recipeYield',
+      'recipeIngredient',
+      'recipeInstructions',
+      'aggregateRating',
+    ],
+    check: (node, report) => checkDurations(node, ['prepTime', 'cookTime', 'totalTime'], report),
+  },
+  HowTo: {
+    required: ['name', 'step'],
+    recommended: ['image', 'totalTime', 'tool', 'supply'],
+    check: (node, report) => checkDurations(node, ['totalTime'], report),
+  },
+  HowToStep: {
+    required: ['text'],
+  },
+  HowToSection: {
+    required: ['name', 'itemListElement'],
+  },
+  JobPosting: {
+    required: ['title', 'description', 'datePosted', 'hiringOrganization'],
+    requiredOneOf: [['jobLocation', 'jobLocationType']],
+    recommended: ['validThrough', 'employmentType', 'baseSalary', 'identifier'],
+    check: (node, report) => {
+      const { datePosted, validThrough } = node;
+
+      if (
+        typeof datePosted === 'string' &&
+        typeof validThrough === 'string' &&
+        Date.parse(validThrough) <= Date.parse(datePosted)
+      ) {
+        report('validThrough', 'error', '"validThrough" must be after "datePosted"');
+      }
+      if (
+        node.jobLocationType === 'TELECOMMUTE' &&
+        isMissing(node.jobLocation) &&
+        isMissing(node.applicantLocationRequirements)
+      ) {
+        report(
+          'applicantLocationRequirements',
+          'error',
+          'Remote jobs without a "jobLocation" require "applicantLocationRequirements"'
+        );
+      }
+    },
+  },
+  PostalAddress: {
+    recommended: ['streetAddress', 'addressLocality', 'postalCode', 'addressCountry'],
+  },
+  OpeningHoursSpecification: {
+    required: ['opens', 'closes'],
+    check: (node, report) => {
+      for (const property of ['opens', 'closes']) {
+        const value = node[property];
+        if (!isMissing(value) && (typeof value !== 'string' || !TIME_PATTERN.test(value))) {
+          report(
+            property,
+            'error',
+            `OpeningHoursSpecification "${property}" must be a time in HH:MM format`
+          );
+        }
+      }
+      if (
+        typeof node.validFrom === 'string' &&
+        typeof node.validThrough === 'string' &&
+        node.validFrom > node.validThrough
+      ) {
+        report(
+          'validThrough',
+          'error',
+          'OpeningHoursSpecification "validThrough" must not be before "validFrom"'
+        );
+      }
+    },
+  },
+};
+
+/**
+ * Subtypes validated with the rules of their parent type
+ */
+const VALIDATION_RULE_ALIASES: Record<string, string> = {
+  Corporation: 'Organization',
+  EducationalOrganization: 'Organization',
+  NGO: 'Organization',
+  OnlineStore: 'Organization',
+  AutomotiveBusiness: 'LocalBusiness',
+  Dentist: 'LocalBusiness',
+  FoodEstablishment: 'LocalBusiness',
+  HealthAndBeautyBusiness: 'LocalBusiness',
+  HomeAndConstructionBusiness: 'LocalBusiness',
+  LodgingBusiness: 'LocalBusiness',
+  MedicalBusiness: 'LocalBusiness',
+  ProfessionalService: 'LocalBusiness',
+  Restaurant: 'LocalBusiness',
+  Store: 'LocalBusiness',
+  NewsArticle: 'Article',
+  BlogPosting: 'Article',
+  TechArticle: 'Article',
+  AboutPage: 'WebPage',
+  CheckoutPage: 'WebPage',
+  CollectionPage: 'WebPage',
+  ContactPage: 'WebPage',
+  ItemPage: 'WebPage',
+  MobileApplication: 'SoftwareApplication',
+  WebApplication: 'SoftwareApplication',
+  VideoGame: 'SoftwareApplication',
+};
+
+/**
+ * Validates a schema against Google's rich-result requirements
+ *
+ * Every node with a known `@type` is checked, including nested nodes such as
+ * offers, ratings, reviews and addresses. Missing required properties are
+ * reported as errors, missing recommended properties as warnings. Nodes that
+ * only contain an `@id` reference are skipped.
+ *
+ * Supported types: Organization, LocalBusiness (and common subtypes), Service,
+ * FAQPage, BreadcrumbList, Product, ProductGroup, Offer, AggregateOffer,
+ * OfferShippingDetails, DefinedRegion, MonetaryAmount, MerchantReturnPolicy,
+ * Review, Rating, AggregateRating, Person, Article, Event, Place,
+ * VirtualLocation, PostalAddress, OpeningHoursSpecification, WebSite,
+ * SearchAction, WebPage (and its subtypes), ProfilePage, Recipe, HowTo,
+ * HowToStep, HowToSection, JobPosting, ImageObject, VideoObject, Clip,
+ * SeekToAction, Course, CourseInstance, Schedule, SoftwareApplication (and its
+ * subtypes), Book, ReadAction, Dataset, DataDownload, DataCatalog, ItemList,
+ * QAPage, DiscussionForumPosting and Comment.
+ *
+ * @param schema - The JSON-LD schema object, array of schemas or @graph document
+ * @returns Validation result with errors and warnings
+ *
+ * @example
+ * ```typescript
+ * import { createProductSchema, validateSchema } from '@opensourceframework/next-json-ld';
+ *
+ * const result = validateSchema(
+ *   createProductSchema({ name: 'Widget', description: 'A widget', price: 9.99 })
+ * );
+ *
+ * result.valid; // false
+ * result.errors[0];
+ * // {
+ * //   path: '$',
+ * //   severity: 'error',
+ * //   message: 'Product requires one of "offers", "review" or "aggregateRating"',
+ * // }
+ * ```
+ */
+export function validateSchema(
+  schema: JSONLDNode | JSONLDNode[] | JSONLDGraph
+): ValidationResult {
+  const issues: ValidationIssue[] = [];
+
+  validateValue(schema, '$', issues);
+
+  const errors = issues.filter((issue) => issue.severity === 'error');
+  const warnings = issues.filter((issue) => issue.severity === 'warning');
+
+  return {
+    valid: errors.length === 0,
+    errors,
+    warnings,
+  };
+}
+
+function validateValue(
+  value: unknown,
+  path: string,
+  issues: ValidationIssue[],
+  inherited: Record<string, unknown> = {},
+  nestedRules: Record<string, ValidationRuleSet> = {}
+): void {
+  if (Array.isArray(value)) {
+    value.forEach((item, index) =>
+      validateValue(item, `${path}[${index}]`, issues, inherited, nestedRules)
+    );
+    return;
+  }
+  if (!isPlainObject(value)) {
+    return;
+  }
+
+  const node = { ...inherited, ...value };
+  const types = ([] as unknown[]).concat(value['@type']);
+  for (const type of types) {
+    if (typeof type === 'string') {
+      validateNode(node, type, path, issues, nestedRules);
+    }
+  }
+
+  for (const [key, item] of Object.entries(value)) {
+    validateValue(
+      item,
+      joinPath(path, key),
+      issues,
+      collectInherited(node, types, key),
+      collectNestedRules(types, key)
+    );
+  }
+}
+
+function collectInherited(
+  node: Record<string, unknown>,
+  types: unknown[],
+  key: string
+): Record<string, unknown> {
+  const inherited: Record<string, unknown> = {};
+  for (const type of types) {
+    const rules = typeof type === 'string' ? getValidationRules(type) : undefined;
+    for (const property of rules?.inherited?.[key] ?? []) {
+      if (!isMissing(node[property])) {
+        inherited[property] = node[property];
+      }
+    }
+  }
+  return inherited;
+}
+
+function collectNestedRules(types: unknown[], key: string): Record<string, ValidationRuleSet> {
+  const nestedRules: Record<string, ValidationRuleSet> = {};
+  for (const type of types) {
+    const rules = typeof type === 'string' ? getValidationRules(type) : undefined;
+    Object.assign(nestedRules, rules?.nestedRules?.[key]);
+  }
+  return nestedRules;
+}
+
+function validateNode(
+  node: Record<string, unknown>,
+  type: string,
+  path: string,
+  issues: ValidationIssue[],
+  nestedRules: Record<string, ValidationRuleSet> = {}
+): void {
+  const rules = getValidationRules(type, nestedRules);
+  if (!rules) {
+    return;
+  }
+
+  const report: ValidationReporter = (property, severity, message) => {
+    issues.push({ path: joinPath(path, property), severity, message });
+  };
+
+  for (const property of rules.required ?? []) {
+    if (isMissing(node[property])) {
+      report(property, 'error', `${type} is missing required property "${property}"`);
+    }
+  }
+
+  for (const group of rules.requiredOneOf ?? []) {
+    if (group.every((property) => isMissing(node[property]))) {
+      issues.push({
+        path,
+        severity: 'error',
+        message: `${type} requires one of ${formatPropertyList(group)}`,
+      });
+    }
+  }
+
+  for (const property of rules.recommended ?? []) {
+    if (isMissing(node[property])) {
+      report(property, 'warning', `${type} is missing recommended property "${property}"`);
+    }
+  }
+
+  rules.check?.(node, report);
+}
+
+function checkDurations(
+  node: Record<string, unknown>,
+  properties: string[],
+  report: ValidationReporter
+): void {
+  for (const property of properties) {
+    const value = node[property];
+    if (!isMissing(value) && (typeof value !== 'string' || !DURATION_PATTERN.test(value))) {
+      report(property, 'error', `"${property}" must be an ISO 8601 duration (e.g., PT1H30M)`);
+    }
+  }
+}
+
+function getValidationRules(
+  type: string,
+  nestedRules: Record<string, ValidationRuleSet> = {}
+): ValidationRuleSet | undefined {
+  const name = VALIDATION_RULE_ALIASES[type] ?? type;
+  return nestedRules[name] ?? VALIDATION_RULES[name];
+}
+
+function checkRatingRange(
+  node: Record<string, unknown>,
+  type: string,
+  report: ValidationReporter
+): void {
+  const value = Number(node.ratingValue);
+  const best = node.bestRating === undefined ? 5 : Number(node.bestRating);
+  const worst = node.worstRating === undefined ? 1 : Number(node.worstRating);
+
+  if (isMissing(node.ratingValue) || Number.isNaN(value)) {
+    return;
+  }
+  if (value < worst || value > best) {
+    report(
+      'ratingValue',
+      'error',
+      `${type} "ratingValue" ${value} is outside the rating scale ${worst}-${best}`
+    );
+  }
+}
+
+function isMissing(value: unknown): boolean {
+  return (
+    value === undefined ||
+    value === null ||
+    value === '' ||
+    (Array.isArray(value) && value.length === 0)
+  );
+}
+
+function joinPath(path: string, property: string): string {
+  return /^[A-Za-z_$]/.test(property)
+    ? `${path}.${property}`
+    : `${path}[${JSON.stringify(property)}]`;
+}
+
+function formatPropertyList(properties: string[]): string {
+  const quoted = properties.map((property) => `"${property}"`);
+  return quoted.length > 1
+    ? `${quoted.slice(0, -1).join(', ')} or ${quoted[quoted.length - 1]}`
+    : (quoted[0] ?? '');
+}
+
+// ============================================================================
+// Internal Helpers
+// ============================================================================
+
+const DAYS_OF_WEEK: DayOfWeek[] = [
+  'Monday',
+  'Tuesday',
+  'Wednesday',
+  'Thursday',
+  'Friday',
+  'Saturday',
+  'Sunday',
+];
+
+const DAY_ABBREVIATIONS = ['Mo', 'Tu', 'We', 'Th', 'Fr', 'Sa', 'Su'];
+
+/**
+ * Matches the `{placeholder}` of a SearchAction URL template
+ */
+const SEARCH_PLACEHOLDER_PATTERN = /\{([^{}]+)\}/;
+
+/**
+ * Description length accepted by Google Dataset Search
+ */
+const DATASET_DESCRIPTION_LENGTH = { min: 50, max: 5000 };
+
+/**
+ * ISO 8601 duration with days, hours, minutes and seconds (e.g., 'P1DT2H', 'PT30M')
+ */
+const DURATION_PATTERN = /^P(?=\d|T\d)(\d+D)?(T(?=\d)(\d+H)?(\d+M)?(\d+(\.\d+)?S)?)?$/;
+
+/**
+ * 24-hour time in HH:MM format
+ */
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+/**
+ * Tags Google supports in FAQ answers
+ */
+const DEFAULT_ALLOWED_HTML_TAGS = [
+  'h1',
+  'h2',
+  'h3',
+  'h4',
+  'h5',
+  'h6',
+  'br',
+  'ol',
+  'ul',
+  'li',
+  'a',
+  'p',
+  'div',
+  'b',
+  'strong',
+  'i',
+  'em',
+];
+
+/**
+ * Matches a comment, a start or end tag (capturing the slash, name and
+ * attributes), a run of text, or a stray `<`
+ *
+ * Attributes stop at the next `<` and an unclosed comment runs to the end of
+ * the input, so that malformed input is tokenized in linear time.
+ */
+const HTML_TOKEN_PATTERN =
+  /<!--[\s\S]*?(?:-->|$)|<(\/?)([a-zA-Z][a-zA-Z0-9]*)((?:[\s/](?:"[^"<]*"|'[^'<]*'|[^'"<>])*)?)>|[^<]+|</g;
+
+/**
+ * Elements removed together with their content
+ */
+const HTML_DROPPED_CONTENT_TAGS = new Set(['script', 'style', 'template', 'noscript', 'iframe']);
+
+/**
+ * Elements that separate words, replaced by a space when removed
+ */
+const HTML_BLOCK_TAGS = new Set([
+  'address',
+  'article',
+  'aside',
+  'blockquote',
+  'br',
+  'dd',
+  'div',
+  'dl',
+  'dt',
+  'figcaption',
+  'figure',
+  'footer',
+  'h1',
+  'h2',
+  'h3',
+  'h4',
+  'h5',
+  'h6',
+  'header',
+  'hr',
+  'li',
+  'main',
+  'nav',
+  'ol',
+  'p',
+  'pre',
+  'section',
+  'table',
+  'td',
+  'th',
+  'tr',
+  'ul',
+]);
+
+const HTML_NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+};
+
+/**
+ * Character reference left undecoded by decodeHtmlEntities
+ */
+const UNDECODED_ENTITY_PATTERN = /&(#|[a-z][a-z0-9]*;)/i;
+
+/**
+ * URL schemes kept in sanitized link targets (relative URLs are always kept)
+ */
+const SAFE_LINK_SCHEMES = new Set(['http', 'https', 'mailto', 'tel']);
+
+function parseOpeningHoursRule(rule: string): OpeningHours[] {
+  const match = /^(\S+)\s+(.+)$/.exec(rule);
+  if (!match) {
+    throw new Error(`Invalid opening hours rule "${rule}": expected "<days> <HH:MM-HH:MM>"`);
+  }
+
+  const [, days = '', times = ''] = match;
+  const dayOfWeek = parseDaysOfWeek(days, rule);
+
+  if (/^closed$/i.test(times.trim())) {
+    return [{ dayOfWeek, closed: true }];
+  }
+
+  return times.split(',').map((range) => {
+    const [opens = '', closes = ''] = range.split('-').map((time) => time.trim());
+    if (!TIME_PATTERN.test(opens) || !TIME_PATTERN.test(closes)) {
+      throw new Error(
+        `Invalid opening hours "${range.trim()}" in rule "${rule}": expected HH:MM-HH:MM`
+      );
+    }
+    return { dayOfWeek, opens, closes };
+  });
+}
+
+function parseDaysOfWeek(days: string, rule: string): DayOfWeek[] {
+  const result: DayOfWeek[] = [];
+
+  for (const part of days.split(',')) {
+    const [from = '', to = from] = part.split('-');
+    const start = DAY_ABBREVIATIONS.indexOf(from);
+    const end = DAY_ABBREVIATIONS.indexOf(to);
+    if (start === -1 || end === -1) {
+      throw new Error(`Invalid days "${part}" in opening hours rule "${rule}"`);
+    }
+
+    // Ranges may wrap around the end of the week (e.g., 'Sa-Mo')
+    for (let index = start; ; index = (index + 1) % DAYS_OF_WEEK.length) {
+      const day = DAYS_OF_WEEK[index];
+      if (day && !result.includes(day)) {
+        result.push(day);
+      }
+      if (index === end) {
+        break;
+      }
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Builds an OpeningHoursSpecification node
+ * - open24Hours is emitted as 00:00-23:59
+ * - closed is emitted as 00:00-00:00
+ */
+function buildOpeningHoursSpecification(
+  hours: OpeningHours
+): OpeningHoursSpecificationJsonLd | undefined {
+  const { dayOfWeek, open24Hours, closed, validFrom, validThrough } = hours;
+  const isSpecial = Boolean(validFrom || validThrough);
+
+  let opens = hours.opens;
+  let closes = hours.closes;
+  if (closed) {
+    opens = '00:00';
+    closes = '00:00';
+  } else if (open24Hours) {
+    opens = '00:00';
+    closes = '23:59';
+  }
+
+  let days = dayOfWeek && dayOfWeek.length > 0 ? dayOfWeek : undefined;
+  if (!days && open24Hours && !isSpecial) {
+    days = [...DAYS_OF_WEEK];
+  }
+
+  for (const time of [opens, closes]) {
+    if (time && !TIME_PATTERN.test(time)) {
+      throw new Error(`Invalid opening hours time "${time}": expected HH:MM`);
+    }
+  }
+
+  // Regular hours need days; special hours may apply to every day in their date range
+  if (!opens || !closes || (!days && !isSpecial)) {
+    return undefined;
+  }
+
+  const specification: OpeningHoursSpecificationJsonLd = {
+    '@type': 'OpeningHoursSpecification',
+    opens,
+    closes,
+  };
+
+  if (days) {
+    specification.dayOfWeek = days;
+  }
+  if (validFrom) {
+    specification.validFrom = validFrom;
+  }
+  if (validThrough) {
+    specification.validThrough = validThrough;
+  }
+
+  return specification;
+}
+
+/**
+ * Builds a Dataset spatialCoverage value, wrapping coordinates and circles in a Place
+ */
+function buildSpatialCoverage(
+  coverage: string | GeoCoordinates | ServiceArea
+): string | GeoPlaceJsonLd | AdministrativeAreaJsonLd | undefined {
+  if (typeof coverage === 'string') {
+    return coverage;
+  }
+  if ('latitude' in coverage) {
+    return {
+      '@type': 'Place',
+      geo: {
+        '@type': 'GeoCoordinates',
+        latitude: coverage.latitude,
+        longitude: coverage.longitude,
+      },
+    };
+  }
+
+  const area = buildServiceArea(coverage);
+  // A GeoCircle is a shape, not a place
+  return area?.['@type'] === 'GeoCircle' ? { '@type': 'Place', geo: area } : area;
+}
+
+/**
+ * Builds a Dataset variableMeasured value, as a name or a PropertyValue node
+ */
+function buildVariableMeasured(variable: string | DatasetVariable): string | PropertyValueJsonLd {
+  if (typeof variable === 'string') {
+    return variable;
+  }
+
+  const node: PropertyValueJsonLd = { '@type': 'PropertyValue', name: variable.name };
+  if (variable.description) {
+    node.description = variable.description;
+  }
+  if (variable.unitText) {
+    node.unitText = variable.unitText;
+  }
+  return node;
+}
+
+/**
+ * Builds the areaServed value: a single node for a single area, an array
+ * for several areas, or undefined when no area can be described
+ */
+function buildAreaServed(
+  areaServed: ServiceArea | ServiceArea[]
+): AreaServedJsonLd | AreaServedJsonLd[] | undefined {
+  if (!Array.isArray(areaServed)) {
+    return buildServiceArea(areaServed);
+  }
+
+  const areas = areaServed
+    .map(buildServiceArea)
+    .filter((area) => area !== undefined);
+
+  return areas.length > 0 ? areas : undefined;
+}
+
+function buildServiceArea(area: ServiceArea): AreaServedJsonLd | undefined {
+  if (area.geoMidpoint && area.geoRadius) {
+    return {
+      '@type': 'GeoCircle',
+      geoMidpoint: {
+        '@type': 'GeoCoordinates',
+        latitude: area.geoMidpoint.latitude,
+        longitude: area.geoMidpoint.longitude,
+      },
+      geoRadius: area.geoRadius,
+    };
+  }
+
+  // Nest from the least to the most specific place: Country > State > City
+  const levels = [
+    ['Country', area.country],
+    ['State', area.region],
+    ['City', area.city],
+  ] as const;
+
+  let place: AdministrativeAreaJsonLd | undefined;
+  for (const [type, name] of levels) {
+    if (name) {
+      const node: AdministrativeAreaJsonLd = { '@type': type, name };
+      if (place) {
+        node.containedInPlace = place;
+      }
+      place = node;
+    }
+  }
+
+  return place;
+}
+
+/**
+ * Builds a Person or organization node from a name or details
+ */
+function buildAgent(
+  agent: string | AuthorInfo | EventPerformer,
+  defaultType: string
+): AuthorJsonLd {
+  if (typeof agent === 'string') {
+    return { '@type': defaultType, name: agent };
+  }
+
+  const { name, type = defaultType, url, sameAs } = agent;
+  const node: AuthorJsonLd = { '@type': type, name };
+
+  if (agent.id) {
+    node['@id'] = agent.id;
+  }
+  if (url) {
+    node.url = url;
+  }
+  if (sameAs && sameAs.length > 0) {
+    node.sameAs = sameAs;
+  }
+
+  return node;
+}
+
+function buildPerson(person: PersonSchemaOptions): PersonJsonLd {
+  const node: PersonJsonLd = { '@type': 'Person', name: person.name };
+
+  if (person.id) {
+    node['@id'] = person.id;
+  }
+  if (person.url) {
+    node.url = person.url;
+  }
+  if (person.description) {
+    node.description = person.description;
+  }
+  if (person.image) {
+    node.image = buildImage(person.image);
+  }
+  if (person.email) {
+    node.email = person.email;
+  }
+  if (person.jobTitle) {
+    node.jobTitle = person.jobTitle;
+  }
+  if (person.worksFor) {
+    node.worksFor =
+      '@id' in person.worksFor
+        ? { '@id': person.worksFor['@id'] }
+        : buildOrganization(person.worksFor, 'Organization');
+  }
+  if (person.alumniOf && person.alumniOf.length > 0) {
+    const schools = ([] as string[])
+      .concat(person.alumniOf)
+      .map((school) => ({ '@type': 'EducationalOrganization', name: school }));
+    node.alumniOf = schools.length === 1 ? schools[0] : schools;
+  }
+  if (person.knowsAbout && person.knowsAbout.length > 0) {
+    node.knowsAbout = person.knowsAbout;
+  }
+  if (person.sameAs && person.sameAs.length > 0) {
+    node.sameAs = person.sameAs;
+  }
+  if (person.interactionStatistics) {
+    const { followers, likes, posts } = person.interactionStatistics;
+    const counters = [
+      buildInteractionCounter('FollowAction', followers),
+      buildInteractionCounter('LikeAction', likes),
+    ].filter((counter) => counter !== undefined);
+
+    if (counters.length > 0) {
+      node.interactionStatistic = counters;
+    }
+    // Posts are actions of the person rather than interactions with them
+    const written = buildInteractionCounter('WriteAction', posts);
+    if (written) {
+      node.agentInteractionStatistic = written;
+    }
+  }
+
+  return node;
+}
+
+function sanitizeText(text: string, mode: HtmlSanitizeMode | undefined): string {
+  return mode ? sanitizeHtml(text, { mode }) : text;
+}
+
+function buildAllowedHtmlTag(name: string, attributes: string): string {
+  if (name !== 'a') {
+    return `<${name}>`;
+  }
+
+  const match = /\shref\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+))/i.exec(attributes);
+  const href = match?.[1] ?? match?.[2] ?? match?.[3];
+  if (href === undefined) {
+    return '<a>';
+  }
+
+  // Browsers ignore whitespace and control characters in the scheme
+  const target = decodeHtmlEntities(href).replace(/[\s\p{Cc}]/gu, '');
+  // Only a few named entities are decoded here, and browsers decode the rest
+  // (e.g., &colon;), so a link still containing one may hide its scheme
+  if (UNDECODED_ENTITY_PATTERN.test(target)) {
+    return '<a>';
+  }
+  const scheme = /^([a-z][a-z0-9+.-]*):/i.exec(target);
+  if (scheme?.[1] && !SAFE_LINK_SCHEMES.has(scheme[1].toLowerCase())) {
+    return '<a>';
+  }
+
+  return `<a href="${href.replace(/"/g, '&quot;')}">`;
+}
+
+function escapeHtmlText(text: string): string {
+  return text.replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+function decodeHtmlEntities(text: string): string {
+  // Like browsers, decode numeric references even without their semicolon
+  return text.replace(
+    /&(?:(#x[0-9a-f]+|#\d+);?|([a-z][a-z0-9]*);)/gi,
+    (entity, numeric?: string, named?: string) => {
+      if (numeric) {
+        const hex = numeric[1] === 'x' || numeric[1] === 'X';
+        const codePoint = parseInt(numeric.slice(hex ? 2 : 1), hex ? 16 : 10);
+        return codePoint <= 0x10ffff ? String.fromCodePoint(codePoint) : entity;
+      }
+      return HTML_NAMED_ENTITIES[named?.toLowerCase() ?? ''] ?? entity;
+    }
+  );
+}
+
+function buildAnswer(text: string): AnswerJsonLd {
+  return {
+    '@type': 'Answer',
+    text,
+  };
+}
+
+function buildCommunityAnswer(answer: CommunityAnswer): CommunityAnswerJsonLd {
+  const node: CommunityAnswerJsonLd = {
+    ...buildAnswer(answer.text),
+    author: buildAgentOrReference(answer.author, 'Person'),
+    datePublished: answer.datePublished,
+    url: answer.url,
+  };
+
+  if (answer.upvoteCount !== undefined) {
+    node.upvoteCount = answer.upvoteCount;
+  }
+
+  return node;
+}
+
+function buildComment(comment: ForumComment): CommentJsonLd {
+  const node: CommentJsonLd = {
+    '@type': 'Comment',
+    text: comment.text,
+    author: buildAgentOrReference(comment.author, 'Person'),
+    datePublished: comment.datePublished,
+  };
+
+  if (comment.url) {
+    node.url = comment.url;
+  }
+  const statistics =
+    comment.interactionStatistics && buildPostInteractions(comment.interactionStatistics);
+  if (statistics) {
+    node.interactionStatistic = statistics;
+  }
+  if (comment.replies && comment.replies.length > 0) {
+    node.comment = comment.replies.map(buildComment);
+  }
+
+  return node;
+}
+
+function buildPostInteractions(
+  statistics: PostInteractionStatistics
+): InteractionCounterJsonLd[] | undefined {
+  const counters = [
+    buildInteractionCounter('LikeAction', statistics.likes),
+    buildInteractionCounter('DislikeAction', statistics.dislikes),
+    buildInteractionCounter('ViewAction', statistics.views),
+    buildInteractionCounter('CommentAction', statistics.comments),
+    buildInteractionCounter('ShareAction', statistics.shares),
+  ].filter((counter) => counter !== undefined);
+
+  return counters.length > 0 ? counters : undefined;
+}
+
+function buildInteractionCounter(
+  action: string,
+  count: number | undefined
+): InteractionCounterJsonLd | undefined {
+  if (count === undefined) {
+    return undefined;
+  }
+  return {
+    '@type': 'InteractionCounter',
+    interactionType: `https://schema.org/${action}`,
+    userInteractionCount: count,
+  };
+}
+
+function buildProfileEntity(
+  entity: PersonSchemaOptions | PersonSchemaJsonLd | OrganizationJsonLd | JSONLDReference
+): PersonJsonLd | OrganizationNodeJsonLd | JSONLDReference {
+  if ('@type' in entity) {
+    // Output of createPersonSchema or createOrganizationSchema
+    return withoutContext(entity);
+  }
+  if ('@id' in entity) {
+    return { '@id': entity['@id'] };
+  }
+  return buildPerson(entity);
+}
+
+function buildAgentOrReference(
+  agent: string | AuthorInfo | EventPerformer | JSONLDReference,
+  defaultType: string
+): AuthorJsonLd | JSONLDReference {
+  if (typeof agent !== 'string' && '@id' in agent) {
+    return { '@id': agent['@id'] };
+  }
+  return buildAgent(agent, defaultType);
+}
+
+function buildPublisher(
+  publisher: string | JSONLDReference,
+  logo: ImageJsonLd | undefined
+): OrganizationReferenceJsonLd | JSONLDReference {
+  if (typeof publisher !== 'string') {
+    return { '@id': publisher['@id'] };
+  }
+
+  const node: OrganizationReferenceJsonLd = { '@type': 'Organization', name: publisher };
+  if (logo) {
+    node.logo = buildImageObject(logo);
+  }
+  return node;
+}
+
+function buildImage(image: ImageJsonLd): ImageJsonLd {
+  if (typeof image !== 'string' && '@context' in image) {
+    // Output of createImageObjectSchema
+    return withoutContext(image);
+  }
+  return image;
+}
+
+function buildImages(image: ImageJsonLd | ImageJsonLd[]): ImageJsonLd | ImageJsonLd[] {
+  return Array.isArray(image) ? image.map(buildImage) : buildImage(image);
+}
+
+/**
+ * Builds an ImageObject node, for properties that do not accept a plain URL
+ */
+function buildImageObject(image: ImageJsonLd): ImageObjectJsonLd {
+  const node = buildImage(image);
+  return typeof node === 'string' ? { '@type': 'ImageObject', url: node } : node;
+}
+
+function buildBreadcrumbReference(
+  breadcrumb: BreadcrumbListJsonLd | JSONLDReference
+): BreadcrumbNodeJsonLd | JSONLDReference {
+  if (!('@type' in breadcrumb)) {
+    return { '@id': breadcrumb['@id'] };
+  }
+  // Output of createBreadcrumbSchema
+  return withoutContext(breadcrumb);
+}
+
+function buildOrganization(organization: OrganizationInfo, type: string): OrganizationNodeJsonLd {
+  const node: OrganizationNodeJsonLd = {
+    '@type': type,
+    name: organization.name,
+    url: organization.url,
+  };
+
+  if (organization.id) {
+    node['@id'] = organization.id;
+  }
+  if (organization.description) {
+    node.description = organization.description;
+  }
+  if (organization.telephone) {
+    node.telephone = organization.telephone;
+  }
+  if (organization.email) {
+    node.email = organization.email;
+  }
+  if (organization.priceRange) {
+    node.priceRange = organization.priceRange;
+  }
+  if (organization.image) {
+    node.image = buildImage(organization.image);
+  }
+  if (organization.logo) {
+    node.logo = buildImage(organization.logo);
+  }
+  if (organization.sameAs && organization.sameAs.length > 0) {
+    node.sameAs = organization.sameAs;
+  }
+  if (organization.address) {
+    node.address = buildPostalAddress(organization.address);
+  }
+
+  return node;
+}
+
+function buildServiceProvider(
+  provider: OrganizationInfo | OrganizationJsonLd | JSONLDReference,
+  type: string
+): OrganizationNodeJsonLd | JSONLDReference {
+  if ('@type' in provider) {
+    // Full output of createOrganizationSchema
+    return withoutContext(provider);
   }
+  if ('@id' in provider) {
+    return { '@id': provider['@id'] };
+  }
+  return buildOrganization(provider, type);
+}
 
-  // Add service area
-  if (areaServed) {
-    if (areaServed.geoMidpoint && areaServed.geoRadius) {
-      schema.areaServed = {
-        '@type': 'GeoCircle',
-        geoMidpoint: {
-          '@type': 'GeoCoordinates',
-          latitude: areaServed.geoMidpoint.latitude,
-          longitude: areaServed.geoMidpoint.longitude,
-        },
-        geoRadius: areaServed.geoRadius,
-      };
-    } else if (areaServed.city) {
-      schema.areaServed = {
-        '@type': 'City',
-        name: areaServed.city,
+function buildOfferCatalog(catalog: OfferCatalog): OfferCatalogJsonLd {
+  return {
+    '@type': 'OfferCatalog',
+    name: catalog.name,
+    itemListElement: catalog.items.map((item) => {
+      const service: OfferedServiceJsonLd = { '@type': 'Service', name: item.name };
+      if (item.description) {
+        service.description = item.description;
+      }
+      if (item.price === undefined || !item.priceCurrency) {
+        return service;
+      }
+      return {
+        ...buildOffer({ price: item.price, priceCurrency: item.priceCurrency }),
+        itemOffered: service,
       };
+    }),
+  };
+}
+
+/**
+ * Builds a Place or VirtualLocation node: a location with an address is a
+ * venue, even when it also carries a URL
+ */
+function buildEventLocation(location: EventPlace | VirtualLocation): EventLocationJsonLd {
+  if (isVirtualLocation(location)) {
+    const node: VirtualLocationJsonLd = { '@type': 'VirtualLocation', url: location.url };
+    if (location.name) {
+      node.name = location.name;
     }
+    return node;
   }
 
-  // Add opening hours
-  if (openingHoursSpecification) {
-    if (openingHoursSpecification.open24Hours) {
-      schema.openingHours = 'Mo-Su';
-    } else if (openingHoursSpecification.dayOfWeek && openingHoursSpecification.opens && openingHoursSpecification.closes) {
-      schema.openingHoursSpecification = {
-        '@type': 'OpeningHoursSpecification',
-        dayOfWeek: openingHoursSpecification.dayOfWeek,
-        opens: openingHoursSpecification.opens,
-        closes: openingHoursSpecification.closes,
-      };
-    }
+  const node: PlaceJsonLd = { '@type': 'Place', name: location.name };
+  if (location.address) {
+    node.address = buildPostalAddress(location.address);
   }
+  return node;
+}
 
-  return schema;
+function isVirtualLocation(location: EventPlace | VirtualLocation): location is VirtualLocation {
+  return 'url' in location && !('address' in location && location.address);
+}
+
+function inferEventAttendanceMode(
+  locations: EventLocationJsonLd[]
+): EventSchemaOptions['eventAttendanceMode'] {
+  const online = locations.some((location) => location['@type'] === 'VirtualLocation');
+  if (!online) {
+    return undefined;
+  }
+  return locations.some((location) => location['@type'] === 'Place')
+    ? 'MixedEventAttendanceMode'
+    : 'OnlineEventAttendanceMode';
+}
+
+function buildAggregateRating(rating: AggregateRatingInfo): AggregateRatingJsonLd {
+  const { ratingValue, reviewCount, ratingCount, bestRating = 5, worstRating = 1 } = rating;
+
+  const node: AggregateRatingJsonLd = {
+    '@type': 'AggregateRating',
+    ratingValue,
+  };
+
+  if (reviewCount !== undefined) {
+    node.reviewCount = reviewCount;
+  }
+  if (ratingCount !== undefined) {
+    node.ratingCount = ratingCount;
+  }
+  node.bestRating = bestRating;
+  node.worstRating = worstRating;
+
+  return node;
+}
+
+function buildReviews(options: ReviewRatingOptions): ReviewsJsonLd {
+  const { reviewCount, ratingValue, bestRating = 5, worstRating = 1, reviews, sanitize } = options;
+
+  return {
+    aggregateRating: buildAggregateRating({ ratingValue, reviewCount, bestRating, worstRating }),
+    review: reviews.map((review) =>
+      buildReview(
+        { ...review, reviewBody: sanitizeText(review.reviewBody, sanitize) },
+        bestRating,
+        worstRating
+      )
+    ),
+  };
+}
+
+function buildReview(review: ReviewItem, bestRating: number, worstRating: number): ReviewJsonLd {
+  return {
+    '@type': 'Review',
+    author: buildAgentOrReference(review.author, 'Person'),
+    reviewBody: review.reviewBody,
+    reviewRating: {
+      '@type': 'Rating',
+      ratingValue: review.reviewRating,
+      bestRating,
+      worstRating,
+    },
+    datePublished: review.datePublished,
+  };
 }
 
 /**
- * Creates a Service schema for specific services
- * 
- * @param options - Service schema options
- * @returns JSON-LD schema object
- *
- * @example
- * ```typescript
- * import { createServiceSchema } from '@opensourceframework/next-json-ld';
- * 
- * const schema = createServiceSchema({
- *   name: 'Web Development',
- *   description: 'Professional web development services',
- *   url: 'https://mybusiness.com/services/web-development',
- *   provider: {
- *     name: 'My Agency',
- *     url: 'https://myagency.com',
- *   },
- *   serviceType: 'Professional Service',
- * });
- * ```
+ * Applies the optional product options shared by products and variants
  */
-export function createServiceSchema(options: ServiceSchemaOptions): JSONLDSchema {
-  const { name, description, url, image, provider, serviceType, areaServed } = options;
+function applyProductDetails(
+  schema: ProductDetailsJsonLd,
+  details: Omit<ProductSchemaOptions, 'name' | 'description'>
+): void {
+  const {
+    id,
+    image,
+    url,
+    brand,
+    sku,
+    price,
+    priceCurrency,
+    availability,
+    gtin,
+    mpn,
+    offers,
+    aggregateOffer,
+    aggregateRating,
+    reviews,
+    shippingDetails,
+    hasMerchantReturnPolicy,
+  } = details;
 
-  const schema: JSONLDSchema = {
-    '@context': 'https://schema.org',
-    '@type': 'Service',
-    name,
-    description,
+  if (id) {
+    schema['@id'] = id;
+  }
+  if (image) {
+    schema.image = buildImages(image);
+  }
+  if (url) {
+    schema.url = url;
+  }
+  if (brand) {
+    schema.brand = {
+      '@type': 'Brand',
+      name: brand,
+    };
+  }
+  if (sku) {
+    schema.sku = sku;
+  }
+  if (gtin) {
+    schema.gtin = gtin;
+  }
+  if (mpn) {
+    schema.mpn = mpn;
+  }
+
+  // Collect the shorthand offer and any additional offers
+  const productOffers: ProductOffer[] = [];
+  if (price !== undefined && priceCurrency) {
+    productOffers.push({ price, priceCurrency, availability });
+  }
+  if (offers) {
+    productOffers.push(...(Array.isArray(offers) ? offers : [offers]));
+  }
+  const offerNodes = productOffers.map((offer) =>
+    buildOffer({
+      ...offer,
+      shippingDetails: offer.shippingDetails ?? shippingDetails,
+      hasMerchantReturnPolicy: offer.hasMerchantReturnPolicy ?? hasMerchantReturnPolicy,
+    })
+  );
+
+  if (aggregateOffer) {
+    schema.offers = buildAggregateOffer(aggregateOffer, offerNodes);
+  } else if (offerNodes.length === 1) {
+    schema.offers = offerNodes[0];
+  } else if (offerNodes.length > 1) {
+    schema.offers = offerNodes;
+  }
+
+  if (aggregateRating) {
+    schema.aggregateRating = buildAggregateRating(aggregateRating);
+  }
+  if (reviews && reviews.length > 0) {
+    schema.review = reviews.map((review) =>
+      buildReview(review, aggregateRating?.bestRating ?? 5, aggregateRating?.worstRating ?? 1)
+    );
+  }
+}
+
+function buildProductVariant(
+  variant: ProductVariant,
+  groupName: string,
+  variesBy: ProductVariesBy[]
+): ProductVariantJsonLd {
+  const { name, description, color, size, material, pattern, ...details } = variant;
+  const attributes = { color, size, material, pattern };
+
+  const varyingValues = variesBy
+    .map((property) => attributes[property])
+    .filter((value): value is string => Boolean(value));
+  const defaultName =
+    varyingValues.length > 0 ? `${groupName} - ${varyingValues.join(', ')}` : groupName;
+
+  const schema: ProductVariantJsonLd = {
+    '@type': 'Product',
+    name: name ?? defaultName,
+  };
+
+  if (description) {
+    schema.description = description;
+  }
+  for (const property of ['color', 'size', 'material', 'pattern'] as const) {
+    const value = attributes[property];
+    if (value) {
+      schema[property] = value;
+    }
+  }
+
+  applyProductDetails(schema, details);
+
+  return schema;
+}
+
+function buildOffer(offer: ProductOffer): OfferJsonLd {
+  const {
+    price,
+    priceCurrency,
+    availability,
+    priceValidUntil,
+    validFrom,
+    itemCondition,
     url,
-    provider: {
-      '@type': 'LocalBusiness',
-      name: provider.name,
-      url: provider.url,
-    },
+    seller,
+    shippingDetails,
+    hasMerchantReturnPolicy,
+  } = offer;
+
+  const node: OfferJsonLd = {
+    '@type': 'Offer',
+    price: price.toFixed(2),
+    priceCurrency,
   };
 
-  if (image) {
-    schema.image = image;
+  if (availability) {
+    node.availability = `https://schema.org/${availability}`;
+  }
+  if (priceValidUntil) {
+    node.priceValidUntil = priceValidUntil;
+  }
+  if (validFrom) {
+    node.validFrom = validFrom;
+  }
+  if (itemCondition) {
+    node.itemCondition = `https://schema.org/${itemCondition}`;
+  }
+  if (url) {
+    node.url = url;
+  }
+  if (seller) {
+    node.seller = {
+      '@type': 'Organization',
+      name: seller,
+    };
+  }
+  if (shippingDetails) {
+    node.shippingDetails = Array.isArray(shippingDetails)
+      ? shippingDetails.map(buildShippingDetails)
+      : buildShippingDetails(shippingDetails);
+  }
+  if (hasMerchantReturnPolicy) {
+    node.hasMerchantReturnPolicy = buildMerchantReturnPolicy(hasMerchantReturnPolicy);
   }
 
-  if (serviceType) {
-    schema.serviceType = serviceType;
+  return node;
+}
+
+function buildAggregateOffer(
+  aggregateOffer: AggregateOfferInfo,
+  offers: OfferJsonLd[]
+): AggregateOfferJsonLd {
+  const { lowPrice, highPrice, priceCurrency, offerCount, availability } = aggregateOffer;
+
+  const node: AggregateOfferJsonLd = {
+    '@type': 'AggregateOffer',
+    lowPrice: lowPrice.toFixed(2),
+    priceCurrency,
+  };
+
+  if (highPrice !== undefined) {
+    node.highPrice = highPrice.toFixed(2);
+  }
+  if (offerCount !== undefined) {
+    node.offerCount = offerCount;
+  }
+  if (availability) {
+    node.availability = `https://schema.org/${availability}`;
+  }
+  if (offers.length > 0) {
+    node.offers = offers;
+  }
+
+  return node;
+}
+
+function buildDuration(duration: string | DurationInfo): string {
+  if (typeof duration === 'string') {
+    return duration;
+  }
+
+  const { days = 0, hours = 0, minutes = 0 } = duration;
+  const date = days > 0 ? `${days}D` : '';
+  const time = `${hours > 0 ? `${hours}H` : ''}${minutes > 0 ? `${minutes}M` : ''}`;
+
+  if (!date && !time) {
+    return 'PT0M';
   }
+  return `P${date}${time ? `T${time}` : ''}`;
+}
 
-  if (areaServed?.city) {
-    schema.areaServed = {
-      '@type': 'City',
-      name: areaServed.city,
+function buildHowToInstruction(
+  instruction: string | HowToStepInfo | HowToSectionInfo
+): HowToStepJsonLd | HowToSectionJsonLd {
+  if (typeof instruction !== 'string' && 'steps' in instruction) {
+    return {
+      '@type': 'HowToSection',
+      name: instruction.name,
+      itemListElement: instruction.steps.map(buildHowToStep),
     };
   }
+  return buildHowToStep(instruction);
+}
 
-  return schema;
+function buildHowToStep(step: string | HowToStepInfo): HowToStepJsonLd {
+  if (typeof step === 'string') {
+    return { '@type': 'HowToStep', text: step };
+  }
+
+  const node: HowToStepJsonLd = { '@type': 'HowToStep', text: step.text };
+  if (step.name) {
+    node.name = step.name;
+  }
+  if (step.url) {
+    node.url = step.url;
+  }
+  if (step.image) {
+    node.image = buildImage(step.image);
+  }
+  return node;
 }
 
-/**
- * Creates a FAQ schema for FAQ pages
- * 
- * @param faqs - Array of FAQ items
- * @returns JSON-LD schema object
- *
- * @example
- * ```typescript
- * import { createFAQSchema } from '@opensourceframework/next-json-ld';
- * 
- * const schema = createFAQSchema([
- *   { question: 'What are your hours?', answer: 'We are open 24/7.' },
- *   { question: 'Do you offer refunds?', answer: 'Yes, within 30 days.' },
- * ]);
- * ```
- */
-export function createFAQSchema(faqs: FAQItem[]): JSONLDSchema {
-  return {
-    '@context': 'https://schema.org',
-    '@type': 'FAQPage',
-    mainEntity: faqs.map((faq) => ({
-      '@type': 'Question',
-      name: faq.question,
-      acceptedAnswer: {
-        '@type': 'Answer',
-        text: faq.answer,
+function buildNutritionInformation(nutrition: NutritionInfo): NutritionInformationJsonLd {
+  const { calories, ...contents } = nutrition;
+  const node: NutritionInformationJsonLd = { '@type': 'NutritionInformation' };
+
+  if (calories !== undefined) {
+    node.calories = typeof calories === 'number' ? `${calories} calories` : calories;
+  }
+  for (const [property, value] of Object.entries(contents)) {
+    if (value) {
+      node[property as keyof typeof contents] = value;
+    }
+  }
+
+  return node;
+}
+
+function buildCourseOffer(offer: CourseOffer): OfferJsonLd {
+  const { category, ...details } = offer;
+  const node = buildOffer(details);
+
+  if (category) {
+    node.category = category;
+  }
+
+  return node;
+}
+
+function buildCourseInstance(instance: CourseInstanceInfo): CourseInstanceJsonLd {
+  const { courseMode, courseWorkload, courseSchedule, instructor, startDate, endDate } = instance;
+  const node: CourseInstanceJsonLd = { '@type': 'CourseInstance', courseMode };
+
+  if (courseWorkload) {
+    node.courseWorkload = buildDuration(courseWorkload);
+  }
+  if (courseSchedule) {
+    node.courseSchedule = {
+      '@type': 'Schedule',
+      duration: buildDuration(courseSchedule.duration),
+      repeatFrequency: courseSchedule.repeatFrequency,
+      repeatCount: courseSchedule.repeatCount,
+    };
+    if (courseSchedule.startDate) {
+      node.courseSchedule.startDate = courseSchedule.startDate;
+    }
+    if (courseSchedule.endDate) {
+      node.courseSchedule.endDate = courseSchedule.endDate;
+    }
+  }
+  if (instructor) {
+    node.instructor = Array.isArray(instructor)
+      ? instructor.map((item) => buildAgentOrReference(item, 'Person'))
+      : buildAgentOrReference(instructor, 'Person');
+  }
+  if (startDate) {
+    node.startDate = startDate;
+  }
+  if (endDate) {
+    node.endDate = endDate;
+  }
+
+  return node;
+}
+
+function buildBookEdition(edition: BookEdition): BookEditionJsonLd {
+  const { isbn, bookFormat, bookEdition, inLanguage, datePublished, numberOfPages, url } =
+    edition;
+  const node: BookEditionJsonLd = { '@type': 'Book', isbn };
+
+  if (edition.id) {
+    node['@id'] = edition.id;
+  }
+  if (bookFormat) {
+    node.bookFormat = `https://schema.org/${bookFormat}`;
+  }
+  if (bookEdition) {
+    node.bookEdition = bookEdition;
+  }
+  if (inLanguage) {
+    node.inLanguage = inLanguage;
+  }
+  if (datePublished) {
+    node.datePublished = datePublished;
+  }
+  if (numberOfPages !== undefined) {
+    node.numberOfPages = numberOfPages;
+  }
+  if (url) {
+    node.url = url;
+  }
+  if (edition.readAction) {
+    const { url: readUrl, platforms = ['DesktopWebPlatform', 'MobileWebPlatform'] } =
+      edition.readAction;
+    node.potentialAction = {
+      '@type': 'ReadAction',
+      target: {
+        '@type': 'EntryPoint',
+        urlTemplate: readUrl,
+        actionPlatform: platforms.map((platform) => `https://schema.org/${platform}`),
       },
-    })),
-  };
+    };
+  }
+
+  return node;
 }
 
-/**
- * Creates a Breadcrumb schema for navigation
- * 
- * @param items - Array of breadcrumb items
- * @returns JSON-LD schema object
- *
- * @example
- * ```typescript
- * import { createBreadcrumbSchema } from '@opensourceframework/next-json-ld';
- * 
- * const schema = createBreadcrumbSchema([
- *   { name: 'Home', url: 'https://example.com' },
- *   { name: 'Products', url: 'https://example.com/products' },
- *   { name: 'Widgets', url: 'https://example.com/products/widgets' },
- * ]);
- * ```
- */
-export function createBreadcrumbSchema(items: BreadcrumbItem[]): JSONLDSchema {
-  return {
-    '@context': 'https://schema.org',
-    '@type': 'BreadcrumbList',
-    itemListElement: items.map((item, index) => ({
-      '@type': 'ListItem',
-      position: index + 1,
-      name: item.name,
-      item: item.url,
-    })),
+function buildClip(clip: VideoClip): ClipJsonLd {
+  const node: ClipJsonLd = {
+    '@type': 'Clip',
+    name: clip.name,
+    startOffset: clip.startOffset,
+    url: clip.url,
+  };
+
+  if (clip.endOffset !== undefined) {
+    node.endOffset = clip.endOffset;
+  }
+
+  return node;
+}
+
+function buildSalary(salary: SalaryInfo): SalaryJsonLd {
+  const value: QuantitativeValueJsonLd = { '@type': 'QuantitativeValue' };
+
+  if (salary.value !== undefined) {
+    value.value = salary.value;
+  }
+  if (salary.minValue !== undefined) {
+    value.minValue = salary.minValue;
+  }
+  if (salary.maxValue !== undefined) {
+    value.maxValue = salary.maxValue;
+  }
+  value.unitText = salary.unit;
+
+  return {
+    '@type': 'MonetaryAmount',
+    currency: salary.currency,
+    value,
   };
 }
 
-/**
- * Creates a Review schema for testimonials and reviews
- * 
- * @param options - Review schema options
- * @returns JSON-LD schema object
- *
- * @example
- * ```typescript
- * import { createReviewSchema } from '@opensourceframework/next-json-ld';
- * 
- * const schema = createReviewSchema({
- *   organization: {
- *     name: 'My Business',
- *     url: 'https://mybusiness.com',
- *   },
- *   reviewCount: 150,
- *   ratingValue: 4.8,
- *   reviews: [
- *     {
- *       author: 'John Doe',
- *       reviewBody: 'Excellent service!',
- *       reviewRating: 5,
- *       datePublished: '2024-01-15',
- *     },
- *   ],
- * });
- * ```
- */
-export function createReviewSchema(options: ReviewSchemaOptions): JSONLDSchema {
-  const {
-    organization,
-    reviewCount,
-    ratingValue,
-    bestRating = 5,
-    worstRating = 1,
-    reviews,
-  } = options;
+function buildMonetaryAmount(amount: MonetaryValue): MonetaryAmountJsonLd {
+  return {
+    '@type': 'MonetaryAmount',
+    value: amount.value,
+    currency: amount.currency,
+  };
+}
 
+function buildDayRange(range: DayRange): QuantitativeValueJsonLd {
   return {
-    '@context': 'https://schema.org',
-    '@type': 'LocalBusiness',
-    name: organization.name,
-    aggregateRating: {
-      '@type': 'AggregateRating',
-      ratingValue,
-      reviewCount,
-      bestRating,
-      worstRating,
-    },
-    review: reviews.map((review) => ({
-      '@type': 'Review',
-      author: {
-        '@type': 'Person',
-        name: review.author,
-      },
-      reviewBody: review.reviewBody,
-      reviewRating: {
-        '@type': 'Rating',
-        ratingValue: review.reviewRating,
-        bestRating,
-        worstRating,
-      },
-      datePublished: review.datePublished,
-    })),
+    '@type': 'QuantitativeValue',
+    minValue: range.minDays,
+    maxValue: range.maxDays,
+    unitCode: 'DAY',
   };
 }
 
-/**
- * Creates a Product schema for e-commerce products
- * 
- * @param options - Product schema options
- * @returns JSON-LD schema object
- *
- * @example
- * ```typescript
- * import { createProductSchema } from '@opensourceframework/next-json-ld';
- * 
- * const schema = createProductSchema({
- *   name: 'Premium Widget',
- *   description: 'High-quality widget for all your needs',
- *   image: 'https://example.com/widget.jpg',
- *   brand: 'WidgetCo',
- *   sku: 'WGT-001',
- *   price: 29.99,
- *   priceCurrency: 'USD',
- *   availability: 'InStock',
- * });
- * ```
- */
-export function createProductSchema(options: ProductSchemaOptions): JSONLDSchema {
-  const {
-    name,
-    description,
-    image,
-    url,
-    brand,
-    sku,
-    price,
-    priceCurrency,
-    availability,
-  } = options;
+function buildShippingDetails(details: ShippingDetails): OfferShippingDetailsJsonLd {
+  const { shippingRate, shippingCountry, shippingRegion, handlingTime, transitTime } = details;
 
-  const schema: JSONLDSchema = {
-    '@context': 'https://schema.org',
-    '@type': 'Product',
-    name,
-    description,
+  const node: OfferShippingDetailsJsonLd = {
+    '@type': 'OfferShippingDetails',
+    shippingRate: buildMonetaryAmount(shippingRate),
+    shippingDestination: {
+      '@type': 'DefinedRegion',
+      addressCountry: shippingCountry,
+    },
   };
 
-  if (image) {
-    schema.image = image;
-  }
-  if (url) {
-    schema.url = url;
-  }
-  if (brand) {
-    schema.brand = {
-      '@type': 'Brand',
-      name: brand,
-    };
-  }
-  if (sku) {
-    schema.sku = sku;
+  if (shippingRegion && shippingRegion.length > 0) {
+    node.shippingDestination.addressRegion = shippingRegion;
   }
-  if (price !== undefined && priceCurrency) {
-    schema.offers = {
-      '@type': 'Offer',
-      price: price.toFixed(2),
-      priceCurrency,
-      availability: availability ? `https://schema.org/${availability}` : undefined,
-    };
+  if (handlingTime || transitTime) {
+    node.deliveryTime = { '@type': 'ShippingDeliveryTime' };
+    if (handlingTime) {
+      node.deliveryTime.handlingTime = buildDayRange(handlingTime);
+    }
+    if (transitTime) {
+      node.deliveryTime.transitTime = buildDayRange(transitTime);
+    }
   }
 
-  return schema;
+  return node;
 }
 
-/**
- * Creates an Article schema for blog posts and news articles
- * 
- * @param options - Article schema options
- * @returns JSON-LD schema object
- *
- * @example
- * ```typescript
- * import { createArticleSchema } from '@opensourceframework/next-json-ld';
- * 
- * const schema = createArticleSchema({
- *   headline: 'How to Build Accessible Websites',
- *   description: 'A comprehensive guide to web accessibility',
- *   image: 'https://example.com/article.jpg',
- *   datePublished: '2024-01-15',
- *   dateModified: '2024-01-20',
- *   author: 'Jane Smith',
- *   publisher: 'Tech Blog',
- *   publisherLogo: 'https://example.com/logo.png',
- *   url: 'https://example.com/articles/accessible-websites',
- * });
- * ```
- */
-export function createArticleSchema(options: ArticleSchemaOptions): JSONLDSchema {
+function buildMerchantReturnPolicy(policy: MerchantReturnPolicy): MerchantReturnPolicyJsonLd {
   const {
-    headline,
-    description,
-    image,
-    datePublished,
-    dateModified,
-    author,
-    publisher,
-    publisherLogo,
-    url,
-  } = options;
+    applicableCountry,
+    returnPolicyCategory,
+    merchantReturnDays,
+    returnMethod,
+    returnFees,
+    returnShippingFeesAmount,
+  } = policy;
 
-  const schema: JSONLDSchema = {
-    '@context': 'https://schema.org',
-    '@type': 'Article',
-    headline,
-    datePublished,
-    author: {
-      '@type': 'Person',
-      name: author,
-    },
-    publisher: {
-      '@type': 'Organization',
-      name: publisher,
-      logo: publisherLogo
-        ? {
-            '@type': 'ImageObject',
-            url: publisherLogo,
-          }
-        : undefined,
-    },
+  const node: MerchantReturnPolicyJsonLd = {
+    '@type': 'MerchantReturnPolicy',
+    applicableCountry,
+    returnPolicyCategory: `https://schema.org/${returnPolicyCategory}`,
   };
 
-  if (description) {
-    schema.description = description;
+  if (merchantReturnDays !== undefined) {
+    node.merchantReturnDays = merchantReturnDays;
   }
-  if (image) {
-    schema.image = image;
+  if (returnMethod) {
+    node.returnMethod = `https://schema.org/${returnMethod}`;
   }
-  if (dateModified) {
-    schema.dateModified = dateModified;
+  if (returnFees) {
+    node.returnFees = `https://schema.org/${returnFees}`;
   }
-  if (url) {
-    schema.mainEntityOfPage = {
-      '@type': 'WebPage',
-      '@id': url,
-    };
+  if (returnShippingFeesAmount) {
+    node.returnShippingFeesAmount = buildMonetaryAmount(returnShippingFeesAmount);
   }
 
-  return schema;
+  return node;
 }
 
 /**
- * Creates an Event schema for events
- * 
- * @param options - Event schema options
- * @returns JSON-LD schema object
- *
- * @example
- * ```typescript
- * import { createEventSchema } from '@opensourceframework/next-json-ld';
- * 
- * const schema = createEventSchema({
- *   name: 'Tech Conference 2024',
- *   description: 'Annual technology conference',
- *   startDate: '2024-06-15T09:00:00Z',
- *   endDate: '2024-06-17T18:00:00Z',
- *   location: {
- *     name: 'Convention Center',
- *     address: '123 Main St, San Francisco, CA',
- *   },
- *   url: 'https://example.com/events/tech-conf-2024',
- *   eventStatus: 'EventScheduled',
- * });
- * ```
+ * Builds a PostalAddress node, treating a plain string as the street address
  */
-export function createEventSchema(options: EventSchemaOptions): JSONLDSchema {
-  const {
-    name,
-    description,
-    startDate,
-    endDate,
-    location,
-    url,
-    image,
-    eventStatus,
-    eventAttendanceMode,
-  } = options;
+function buildPostalAddress(address: string | PostalAddress): PostalAddressJsonLd {
+  if (typeof address === 'string') {
+    return {
+      '@type': 'PostalAddress',
+      streetAddress: address,
+    };
+  }
 
-  const schema: JSONLDSchema = {
-    '@context': 'https://schema.org',
-    '@type': 'Event',
-    name,
-    startDate,
-  };
+  const node: PostalAddressJsonLd = { '@type': 'PostalAddress' };
 
-  if (description) {
-    schema.description = description;
+  if (address.streetAddress) {
+    node.streetAddress = address.streetAddress;
   }
-  if (endDate) {
-    schema.endDate = endDate;
+  if (address.addressLocality) {
+    node.addressLocality = address.addressLocality;
   }
-  if (location) {
-    schema.location = {
-      '@type': 'Place',
-      name: location.name,
-      address: location.address
-        ? {
-            '@type': 'PostalAddress',
-            streetAddress: location.address,
-          }
-        : undefined,
-    };
+  if (address.addressRegion) {
+    node.addressRegion = address.addressRegion;
   }
-  if (url) {
-    schema.url = url;
+  if (address.postalCode) {
+    node.postalCode = address.postalCode;
   }
-  if (image) {
-    schema.image = image;
+  if (address.addressCountry) {
+    node.addressCountry = address.addressCountry;
   }
-  if (eventStatus) {
-    schema.eventStatus = `https://schema.org/${eventStatus}`;
+
+  return node;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isDeepEqual(a: unknown, b: unknown): boolean {
+  if (a === b) {
+    return true;
+  }
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, index) => isDeepEqual(item, b[index]));
   }
-  if (eventAttendanceMode) {
-    schema.eventAttendanceMode = `https://schema.org/${eventAttendanceMode}`;
+  if (isPlainObject(a) && isPlainObject(b)) {
+    const keys = Object.keys(a).filter((key) => a[key] !== undefined);
+    const otherKeys = Object.keys(b).filter((key) => b[key] !== undefined);
+    return (
+      keys.length === otherKeys.length && keys.every((key) => isDeepEqual(a[key], b[key]))
+    );
   }
+  return false;
+}
 
-  return schema;
+/**
+ * Adds every @id found in a value to `ids`
+ */
+function collectNodeIds(value: unknown, ids: Set<string>): Set<string> {
+  if (Array.isArray(value)) {
+    value.forEach((item) => collectNodeIds(item, ids));
+  } else if (isPlainObject(value)) {
+    if (typeof value['@id'] === 'string') {
+      ids.add(value['@id']);
+    }
+    Object.values(value).forEach((item) => collectNodeIds(item, ids));
+  }
+  return ids;
 }
 
-// ============================================================================
-// Utility Functions
-// ============================================================================
+/**
+ * A schema type without its @context, keeping the index signature and the
+ * other properties of each member of a union
+ */
+type WithoutContext<T> = T extends unknown
+  ? { [K in keyof T as K extends '@context' ? never : K]: T[K] }
+  : never;
 
 /**
- * Merges multiple JSON-LD schemas into a single array
- * Useful when a page has multiple structured data types
- * 
- * @param schemas - Array of JSON-LD schemas
- * @returns Array of JSON-LD schemas
- *
- * @example
- * ```typescript
- * import { mergeSchemas, createOrganizationSchema, createFAQSchema } from '@opensourceframework/next-json-ld';
- * 
- * const combined = mergeSchemas([
- *   createOrganizationSchema({ organization: { name: 'My Business', url: 'https://...' } }),
- *   createFAQSchema([{ question: '...', answer: '...' }]),
- * ]);
- * ```
+ * Shallow-copies a generated schema without its @context, to nest it in another node
+ */
+function withoutContext<T extends object>(schema: T): WithoutContext<T> {
+  const { '@context': _context, ...node } = schema as T & { '@context'?: unknown };
+  return node as WithoutContext<T>;
+}
+
+/**
+ * Deep-copies a value, removing every @context key
+ */
+function stripContext(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(stripContext);
+  }
+  if (isPlainObject(value)) {
+    const copy: Record<string, unknown> = {};
+    for (const [key, item] of Object.entries(value)) {
+      if (key !== '@context') {
+        copy[key] = stripContext(item);
+      }
+    }
+    return copy;
+  }
+  return value;
+}
+
+/**
+ * Merges the properties of `source` into `target`, reporting conflicts
  */
-export function mergeSchemas(schemas: JSONLDSchema[]): JSONLDSchema[] {
-  return schemas;
+function mergeNodeProperties(
+  target: Record<string, unknown>,
+  source: Record<string, unknown>,
+  id: string,
+  path: string,
+  onConflict?: (conflict: SchemaConflict) => void
+): void {
+  for (const [key, incoming] of Object.entries(source)) {
+    const existing = target[key];
+    const propertyPath = path ? `${path}.${key}` : key;
+
+    if (incoming === undefined || isDeepEqual(existing, incoming)) {
+      continue;
+    }
+    if (existing === undefined) {
+      target[key] = incoming;
+    } else if (Array.isArray(existing) && Array.isArray(incoming)) {
+      target[key] = [
+        ...existing,
+        ...incoming.filter((item) => !existing.some((current) => isDeepEqual(current, item))),
+      ];
+    } else if (isPlainObject(existing) && isPlainObject(incoming)) {
+      mergeNodeProperties(existing, incoming, id, propertyPath, onConflict);
+    } else {
+      onConflict?.({ id, path: propertyPath, existing, incoming });
+    }
+  }
 }
 
 export default {
@@ -812,8 +7059,30 @@ export default {
   createFAQSchema,
   createBreadcrumbSchema,
   createReviewSchema,
+  attachReviews,
   createProductSchema,
+  createProductGroupSchema,
   createArticleSchema,
   createEventSchema,
+  createWebSiteSchema,
+  createWebPageSchema,
+  createRecipeSchema,
+  createHowToSchema,
+  createJobPostingSchema,
+  createPersonSchema,
+  createProfilePageSchema,
+  createImageObjectSchema,
+  createVideoObjectSchema,
+  createCourseSchema,
+  createSoftwareApplicationSchema,
+  createBookSchema,
+  createDatasetSchema,
+  createItemListSchema,
+  createQAPageSchema,
+  createDiscussionForumPostingSchema,
   mergeSchemas,
+  createEntityRegistry,
+  parseOpeningHours,
+  sanitizeHtml,
+  validateSchema,
 };
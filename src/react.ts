@@ -0,0 +1,68 @@
+/**
+ * React component for rendering JSON-LD structured data
+ * Works in Server Components (App Router) and in the Pages Router
+ * @module @opensourceframework/next-json-ld/react
+ */
+
+import { createElement, type ReactElement } from 'react';
+import { createJsonLdScript, type JSONLDGraph, type JSONLDSchema } from './index';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Props for the JsonLd component
+ */
+export interface JsonLdProps {
+  /** The JSON-LD schema object, array of schemas or @graph document */
+  schema: JSONLDSchema | JSONLDSchema[] | JSONLDGraph;
+  /** Element id, used to identify and dedupe the script tag */
+  id?: string;
+  /** Content Security Policy nonce */
+  nonce?: string;
+  /** Pretty-print the serialized schema (default: false) */
+  pretty?: boolean;
+}
+
+// ============================================================================
+// Components
+// ============================================================================
+
+/**
+ * Renders a single `<script type="application/ld+json">` tag
+ *
+ * The schema is serialized with createJsonLdScript, so string values are
+ * escaped and cannot close the script element. The component has no hooks
+ * or client-side state and can be rendered as a Server Component.
+ *
+ * @param props - Component props
+ * @returns A script element
+ *
+ * @example
+ * ```tsx
+ * import { JsonLd } from '@opensourceframework/next-json-ld/react';
+ *
+ * // app/page.tsx
+ * export default function Page() {
+ *   return (
+ *     <>
+ *       <JsonLd id="organization" schema={organizationSchema} />
+ *       <main>...</main>
+ *     </>
+ *   );
+ * }
+ * ```
+ */
+export function JsonLd({ schema, id, nonce, pretty }: JsonLdProps): ReactElement {
+  return createElement('script', {
+    type: 'application/ld+json',
+    id,
+    nonce,
+    dangerouslySetInnerHTML: {
+      __html: createJsonLdScript(schema, { pretty }),
+    },
+  });
+}
+
+export default JsonLd;
@@ -1,4 +1,4 @@
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, expectTypeOf } from 'vitest';
 import {
   createJsonLdScript,
   createOrganizationSchema,
@@ -6,11 +6,42 @@ import {
   createFAQSchema,
   createBreadcrumbSchema,
   createReviewSchema,
+  attachReviews,
   createProductSchema,
+  createProductGroupSchema,
   createArticleSchema,
   createEventSchema,
+  createWebSiteSchema,
+  createWebPageSchema,
+  createRecipeSchema,
+  createHowToSchema,
+  createJobPostingSchema,
+  createPersonSchema,
+  createProfilePageSchema,
+  createImageObjectSchema,
+  createVideoObjectSchema,
+  createCourseSchema,
+  createSoftwareApplicationSchema,
+  createBookSchema,
+  createDatasetSchema,
+  createItemListSchema,
+  createQAPageSchema,
+  createDiscussionForumPostingSchema,
   mergeSchemas,
+  createEntityRegistry,
+  parseOpeningHours,
+  sanitizeHtml,
+  validateSchema,
+  type AggregateOfferJsonLd,
+  type ArticleJsonLd,
+  type EventJsonLd,
+  type ExactJsonLd,
+  type FAQPageJsonLd,
   type JSONLDSchema,
+  type OfferJsonLd,
+  type PlaceJsonLd,
+  type ProductJsonLd,
+  type SchemaConflict,
 } from '../src/index';
 
 // Type alias for test schemas - used for documentation purposes
@@ -48,6 +79,73 @@ describe('next-json-ld', () => {
       expect(result).toContain('Test Org');
       expect(result).toContain('Test Page');
     });
+
+    it('should escape characters that could close the script tag', () => {
+      const schema = {
+        '@context': 'https://schema.org' as const,
+        '@type': 'Review',
+        reviewBody: '</script><script>alert(1)</script><!-- & -->',
+      };
+      const result = createJsonLdScript(schema);
+      expect(result).not.toContain('<');
+      expect(result).not.toContain('>');
+      expect(result).not.toContain('&');
+      expect(result).toContain('\\u003c/script\\u003e');
+      expect(result).toContain('\\u003c!--');
+      expect(JSON.parse(result)).toEqual(schema);
+    });
+
+    it('should escape line and paragraph separators', () => {
+      const schema = {
+        '@context': 'https://schema.org' as const,
+        '@type': 'Thing',
+        name: 'a\u2028b\u2029c',
+      };
+      const result = createJsonLdScript(schema);
+      expect(result).not.toMatch(/[\u2028\u2029]/);
+      expect(result).toContain('a\\u2028b\\u2029c');
+      expect(JSON.parse(result)).toEqual(schema);
+    });
+
+    it('should not allow user content to end the script block', () => {
+      const payloads = [
+        '</script>',
+        '</SCRIPT >',
+        '<!--<script>',
+        '</script\n>',
+        ']]></script>',
+      ];
+      for (const payload of payloads) {
+        const html = `<script type="application/ld+json">${createJsonLdScript({
+          '@context': 'https://schema.org',
+          '@type': 'FAQPage',
+          text: payload,
+        })}</script>`;
+        expect(html.match(/<\/script/gi)).toHaveLength(1);
+        expect(html).not.toContain('<!--');
+      }
+    });
+
+    it('should output raw JSON when escaping is disabled', () => {
+      const schema = {
+        '@context': 'https://schema.org' as const,
+        '@type': 'Organization',
+        name: 'Test & Sons <test>',
+      };
+      const result = createJsonLdScript(schema, { escape: false });
+      expect(result).toBe(JSON.stringify(schema));
+    });
+
+    it('should pretty-print when requested', () => {
+      const schema = {
+        '@context': 'https://schema.org' as const,
+        '@type': 'Organization',
+        name: 'A & B',
+      };
+      const result = createJsonLdScript(schema, { pretty: true });
+      expect(result).toBe(JSON.stringify(schema, null, 2).replace('&', '\\u0026'));
+      expect(result).toContain('\n  "@type": "Organization"');
+    });
   });
 
   describe('createOrganizationSchema', () => {
@@ -91,6 +189,62 @@ describe('next-json-ld', () => {
       expect(schema['@id']).toBe('https://mybusiness.com/#organization');
     });
 
+    it('should add a structured postal address', () => {
+      const schema = createOrganizationSchema({
+        organization: {
+          name: 'My Business',
+          url: 'https://mybusiness.com',
+          address: {
+            streetAddress: '123 Main St',
+            addressLocality: 'New York',
+            addressRegion: 'NY',
+            postalCode: '10001',
+            addressCountry: 'US',
+          },
+        },
+      });
+
+      expect(schema.address).toEqual({
+        '@type': 'PostalAddress',
+        streetAddress: '123 Main St',
+        addressLocality: 'New York',
+        addressRegion: 'NY',
+        postalCode: '10001',
+        addressCountry: 'US',
+      });
+    });
+
+    it('should accept a plain string address', () => {
+      const schema = createOrganizationSchema({
+        organization: {
+          name: 'My Business',
+          url: 'https://mybusiness.com',
+          address: '123 Main St, New York, NY',
+        },
+      });
+
+      expect(schema.address).toEqual({
+        '@type': 'PostalAddress',
+        streetAddress: '123 Main St, New York, NY',
+      });
+    });
+
+    it('should omit empty address fields', () => {
+      const schema = createOrganizationSchema({
+        organization: {
+          name: 'My Business',
+          url: 'https://mybusiness.com',
+          address: { addressLocality: 'Amsterdam', addressCountry: 'NL' },
+        },
+      });
+
+      expect(schema.address).toEqual({
+        '@type': 'PostalAddress',
+        addressLocality: 'Amsterdam',
+        addressCountry: 'NL',
+      });
+    });
+
     it('should add geo circle area served', () => {
       const schema = createOrganizationSchema({
         organization: {
@@ -131,6 +285,67 @@ describe('next-json-ld', () => {
       });
     });
 
+    it('should add city area served contained in region and country', () => {
+      const schema = createOrganizationSchema({
+        organization: {
+          name: 'My Business',
+          url: 'https://mybusiness.com',
+        },
+        areaServed: {
+          city: 'Austin',
+          region: 'Texas',
+          country: 'US',
+        },
+      });
+
+      expect(schema.areaServed).toEqual({
+        '@type': 'City',
+        name: 'Austin',
+        containedInPlace: {
+          '@type': 'State',
+          name: 'Texas',
+          containedInPlace: { '@type': 'Country', name: 'US' },
+        },
+      });
+    });
+
+    it('should add country area served', () => {
+      const schema = createOrganizationSchema({
+        organization: {
+          name: 'My Business',
+          url: 'https://mybusiness.com',
+        },
+        areaServed: { country: 'NL' },
+      });
+
+      expect(schema.areaServed).toEqual({ '@type': 'Country', name: 'NL' });
+    });
+
+    it('should add multiple areas served', () => {
+      const schema = createOrganizationSchema({
+        organization: {
+          name: 'My Franchise',
+          url: 'https://myfranchise.com',
+        },
+        areaServed: [
+          { city: 'Amsterdam' },
+          { city: 'Rotterdam' },
+          { geoMidpoint: { latitude: 52.0907, longitude: 5.1214 }, geoRadius: '20km' },
+          {},
+        ],
+      });
+
+      expect(schema.areaServed).toEqual([
+        { '@type': 'City', name: 'Amsterdam' },
+        { '@type': 'City', name: 'Rotterdam' },
+        {
+          '@type': 'GeoCircle',
+          geoMidpoint: { '@type': 'GeoCoordinates', latitude: 52.0907, longitude: 5.1214 },
+          geoRadius: '20km',
+        },
+      ]);
+    });
+
     it('should add 24/7 opening hours', () => {
       const schema = createOrganizationSchema({
         organization: {
@@ -142,7 +357,12 @@ describe('next-json-ld', () => {
         },
       });
 
-      expect(schema.openingHours).toBe('Mo-Su');
+      expect(schema.openingHoursSpecification).toEqual({
+        '@type': 'OpeningHoursSpecification',
+        dayOfWeek: ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday'],
+        opens: '00:00',
+        closes: '23:59',
+      });
     });
 
     it('should add specific opening hours', () => {
@@ -166,6 +386,129 @@ describe('next-json-ld', () => {
       });
     });
 
+    it('should add multiple opening hours specifications', () => {
+      const schema = createOrganizationSchema({
+        organization: {
+          name: 'My Shop',
+          url: 'https://myshop.com',
+        },
+        openingHoursSpecification: [
+          {
+            dayOfWeek: ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday'],
+            opens: '09:00',
+            closes: '18:00',
+          },
+          { dayOfWeek: ['Saturday'], opens: '10:00', closes: '14:00' },
+          { dayOfWeek: ['Sunday'] },
+        ],
+      });
+
+      expect(schema.openingHoursSpecification).toEqual([
+        {
+          '@type': 'OpeningHoursSpecification',
+          dayOfWeek: ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday'],
+          opens: '09:00',
+          closes: '18:00',
+        },
+        {
+          '@type': 'OpeningHoursSpecification',
+          dayOfWeek: ['Saturday'],
+          opens: '10:00',
+          closes: '14:00',
+        },
+      ]);
+    });
+
+    it('should add special hours and holiday closures', () => {
+      const schema = createOrganizationSchema({
+        organization: {
+          name: 'My Shop',
+          url: 'https://myshop.com',
+        },
+        openingHoursSpecification: [
+          { closed: true, validFrom: '2024-12-25', validThrough: '2024-12-26' },
+          { opens: '10:00', closes: '16:00', validFrom: '2024-12-31', validThrough: '2024-12-31' },
+          {
+            dayOfWeek: ['Saturday', 'Sunday'],
+            open24Hours: true,
+            validFrom: '2024-07-01',
+            validThrough: '2024-08-31',
+          },
+        ],
+      });
+
+      expect(schema.openingHoursSpecification).toEqual([
+        {
+          '@type': 'OpeningHoursSpecification',
+          opens: '00:00',
+          closes: '00:00',
+          validFrom: '2024-12-25',
+          validThrough: '2024-12-26',
+        },
+        {
+          '@type': 'OpeningHoursSpecification',
+          opens: '10:00',
+          closes: '16:00',
+          validFrom: '2024-12-31',
+          validThrough: '2024-12-31',
+        },
+        {
+          '@type': 'OpeningHoursSpecification',
+          dayOfWeek: ['Saturday', 'Sunday'],
+          opens: '00:00',
+          closes: '23:59',
+          validFrom: '2024-07-01',
+          validThrough: '2024-08-31',
+        },
+      ]);
+    });
+
+    it('should parse compact opening hours', () => {
+      const schema = createOrganizationSchema({
+        organization: {
+          name: 'My Shop',
+          url: 'https://myshop.com',
+        },
+        openingHoursSpecification: 'Mo-Fr 09:00-18:00; Sa 10:00-14:00',
+      });
+
+      expect(schema.openingHoursSpecification).toEqual([
+        {
+          '@type': 'OpeningHoursSpecification',
+          dayOfWeek: ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday'],
+          opens: '09:00',
+          closes: '18:00',
+        },
+        {
+          '@type': 'OpeningHoursSpecification',
+          dayOfWeek: ['Saturday'],
+          opens: '10:00',
+          closes: '14:00',
+        },
+      ]);
+    });
+
+    it('should reject opening hours times that are not in HH:MM format', () => {
+      expect(() =>
+        createOrganizationSchema({
+          organization: { name: 'My Shop', url: 'https://myshop.com' },
+          openingHoursSpecification: { dayOfWeek: ['Monday'], opens: '9am', closes: '17:00' },
+        })
+      ).toThrow('Invalid opening hours time "9am": expected HH:MM');
+    });
+
+    it('should omit opening hours that cannot be described', () => {
+      const schema = createOrganizationSchema({
+        organization: {
+          name: 'My Shop',
+          url: 'https://myshop.com',
+        },
+        openingHoursSpecification: { dayOfWeek: ['Monday'], opens: '09:00' },
+      });
+
+      expect(schema).not.toHaveProperty('openingHoursSpecification');
+    });
+
     it('should allow custom organization type', () => {
       const schema = createOrganizationSchema({
         organization: {
@@ -225,243 +568,3320 @@ describe('next-json-ld', () => {
         name: 'New York',
       });
     });
-  });
 
-  describe('createFAQSchema', () => {
-    it('should create a FAQ schema', () => {
-      const faqs = [
-        { question: 'What are your hours?', answer: 'We are open 24/7.' },
-        { question: 'Do you offer refunds?', answer: 'Yes, within 30 days.' },
-      ];
+    it('should add geo circle and region areas served', () => {
+      const geo = createServiceSchema({
+        name: 'Delivery',
+        description: 'Same-day delivery',
+        url: 'https://mybusiness.com/services/delivery',
+        provider: { name: 'My Business', url: 'https://mybusiness.com' },
+        areaServed: {
+          geoMidpoint: { latitude: 40.7128, longitude: -74.006 },
+          geoRadius: '25km',
+        },
+      });
+      expect(geo.areaServed).toEqual({
+        '@type': 'GeoCircle',
+        geoMidpoint: { '@type': 'GeoCoordinates', latitude: 40.7128, longitude: -74.006 },
+        geoRadius: '25km',
+      });
+
+      const regions = createServiceSchema({
+        name: 'Delivery',
+        description: 'Same-day delivery',
+        url: 'https://mybusiness.com/services/delivery',
+        provider: { name: 'My Business', url: 'https://mybusiness.com' },
+        areaServed: [{ region: 'New York', country: 'US' }, { country: 'CA' }],
+      });
+      expect(regions.areaServed).toEqual([
+        {
+          '@type': 'State',
+          name: 'New York',
+          containedInPlace: { '@type': 'Country', name: 'US' },
+        },
+        { '@type': 'Country', name: 'CA' },
+      ]);
+    });
+
+    it('should omit areaServed when no area can be described', () => {
+      const schema = createServiceSchema({
+        name: 'Delivery',
+        description: 'Same-day delivery',
+        url: 'https://mybusiness.com/services/delivery',
+        provider: { name: 'My Business', url: 'https://mybusiness.com' },
+        areaServed: [{ geoRadius: '25km' }],
+      });
+
+      expect(schema).not.toHaveProperty('areaServed');
+    });
+
+    it('should include the provider address', () => {
+      const schema = createServiceSchema({
+        name: 'Plumbing',
+        description: 'Emergency plumbing',
+        url: 'https://myplumber.com/services/emergency',
+        provider: {
+          name: 'My Plumber',
+          url: 'https://myplumber.com',
+          address: { streetAddress: '1 Pipe Rd', addressLocality: 'Utrecht' },
+        },
+      });
+
+      expect(schema.provider.address).toEqual({
+        '@type': 'PostalAddress',
+        streetAddress: '1 Pipe Rd',
+        addressLocality: 'Utrecht',
+      });
+    });
+
+    it('should keep all provider details and use the provider type', () => {
+      const schema = createServiceSchema({
+        name: 'Web Development',
+        description: 'Professional web development services',
+        url: 'https://myagency.com/services/web-development',
+        provider: {
+          name: 'My Agency',
+          url: 'https://myagency.com',
+          id: 'https://myagency.com/#organization',
+          logo: 'https://myagency.com/logo.png',
+          telephone: '+1-555-0100',
+          sameAs: ['https://github.com/myagency'],
+        },
+        providerType: 'Organization',
+      });
+
+      expect(schema.provider).toEqual({
+        '@type': 'Organization',
+        '@id': 'https://myagency.com/#organization',
+        name: 'My Agency',
+        url: 'https://myagency.com',
+        logo: 'https://myagency.com/logo.png',
+        telephone: '+1-555-0100',
+        sameAs: ['https://github.com/myagency'],
+      });
+    });
+
+    it('should reference the provider by @id', () => {
+      const organization = createOrganizationSchema({
+        organization: {
+          name: 'My Agency',
+          url: 'https://myagency.com',
+          id: 'https://myagency.com/#organization',
+          address: '1 Main St',
+        },
+      });
+      const service = createServiceSchema({
+        name: 'Web Development',
+        description: 'Professional web development services',
+        url: 'https://myagency.com/services/web-development',
+        provider: { '@id': 'https://myagency.com/#organization' },
+      });
+
+      expect(service.provider).toEqual({ '@id': 'https://myagency.com/#organization' });
+
+      const graph = mergeSchemas([organization, service], { graph: true });
+      expect(graph['@graph']).toHaveLength(2);
+      expect(validateSchema(graph).errors).toEqual([]);
+    });
+
+    it('should nest the output of createOrganizationSchema', () => {
+      const organization = createOrganizationSchema({
+        organization: { name: 'My Agency', url: 'https://myagency.com' },
+        type: 'ProfessionalService',
+      });
+      const schema = createServiceSchema({
+        name: 'Web Development',
+        description: 'Professional web development services',
+        url: 'https://myagency.com/services/web-development',
+        provider: organization,
+      });
+
+      expect(schema.provider).toEqual({
+        '@type': 'ProfessionalService',
+        name: 'My Agency',
+        url: 'https://myagency.com',
+      });
+      expect(organization['@context']).toBe('https://schema.org');
+    });
+
+    it('should add offers, an offer catalog and categories', () => {
+      const schema = createServiceSchema({
+        name: 'Web Development',
+        description: 'Professional web development services',
+        url: 'https://myagency.com/services/web-development',
+        provider: { name: 'My Agency', url: 'https://myagency.com' },
+        offers: { price: 1500, priceCurrency: 'EUR', validFrom: '2024-01-01' },
+        hasOfferCatalog: {
+          name: 'Web services',
+          items: [
+            { name: 'Landing page', price: 900, priceCurrency: 'EUR' },
+            { name: 'Maintenance', description: 'Monthly updates and monitoring' },
+          ],
+        },
+        category: ['Web Design', 'Software Development'],
+      });
+
+      expect(schema.offers).toEqual({
+        '@type': 'Offer',
+        price: '1500.00',
+        priceCurrency: 'EUR',
+        validFrom: '2024-01-01',
+      });
+      expect(schema.hasOfferCatalog).toEqual({
+        '@type': 'OfferCatalog',
+        name: 'Web services',
+        itemListElement: [
+          {
+            '@type': 'Offer',
+            price: '900.00',
+            priceCurrency: 'EUR',
+            itemOffered: { '@type': 'Service', name: 'Landing page' },
+          },
+          {
+            '@type': 'Service',
+            name: 'Maintenance',
+            description: 'Monthly updates and monitoring',
+          },
+        ],
+      });
+      expect(schema.category).toEqual(['Web Design', 'Software Development']);
+    });
+
+    it('should validate with the default LocalBusiness provider', () => {
+      const schema = createServiceSchema({
+        name: 'Web Development',
+        description: 'Professional web development services',
+        url: 'https://mybusiness.com/services/web-development',
+        provider: {
+          name: 'My Agency',
+          url: 'https://myagency.com',
+        },
+        serviceType: 'Professional Service',
+        areaServed: { city: 'New York' },
+      });
+
+      expect(schema.provider).toMatchObject({ '@type': 'LocalBusiness', name: 'My Agency' });
+      expect(validateSchema(schema).errors).toEqual([]);
+    });
+  });
+
+  describe('createFAQSchema', () => {
+    it('should create a FAQ schema', () => {
+      const faqs = [
+        { question: 'What are your hours?', answer: 'We are open 24/7.' },
+        { question: 'Do you offer refunds?', answer: 'Yes, within 30 days.' },
+      ];
+
+      const schema = createFAQSchema(faqs);
+
+      expect(schema['@type']).toBe('FAQPage');
+      expect(schema.mainEntity).toHaveLength(2);
+      expect(schema.mainEntity[0]).toEqual({
+        '@type': 'Question',
+        name: 'What are your hours?',
+        acceptedAnswer: {
+          '@type': 'Answer',
+          text: 'We are open 24/7.',
+        },
+      });
+    });
+
+    it('should sanitize answer HTML when requested', () => {
+      const faqs = [
+        {
+          question: 'How do I return an item?',
+          answer: '<p style="color:red">Use the <a href="/returns" target="_blank">form</a>.</p>',
+        },
+      ];
+
+      const allowlist = createFAQSchema(faqs, { sanitize: 'allowlist' });
+      const strip = createFAQSchema(faqs, { sanitize: 'strip' });
+
+      expect(allowlist.mainEntity[0]?.acceptedAnswer).toEqual({
+        '@type': 'Answer',
+        text: '<p>Use the <a href="/returns">form</a>.</p>',
+      });
+      expect(strip.mainEntity[0]?.acceptedAnswer.text).toBe('Use the form.');
+      expect(createFAQSchema(faqs).mainEntity[0]?.acceptedAnswer.text).toBe(faqs[0]?.answer);
+    });
+  });
+
+  describe('createBreadcrumbSchema', () => {
+    it('should create a breadcrumb schema', () => {
+      const items = [
+        { name: 'Home', url: 'https://example.com' },
+        { name: 'Products', url: 'https://example.com/products' },
+        { name: 'Widgets', url: 'https://example.com/products/widgets' },
+      ];
+
+      const schema = createBreadcrumbSchema(items);
+
+      expect(schema['@type']).toBe('BreadcrumbList');
+      expect(schema.itemListElement).toHaveLength(3);
+      expect(schema.itemListElement[0]).toEqual({
+        '@type': 'ListItem',
+        position: 1,
+        name: 'Home',
+        item: 'https://example.com',
+      });
+      expect(schema.itemListElement[2]?.position).toBe(3);
+    });
+  });
+
+  describe('createReviewSchema', () => {
+    it('should create a review schema', () => {
+      const schema = createReviewSchema({
+        organization: {
+          name: 'My Business',
+          url: 'https://mybusiness.com',
+        },
+        reviewCount: 150,
+        ratingValue: 4.8,
+        reviews: [
+          {
+            author: 'John Doe',
+            reviewBody: 'Excellent service!',
+            reviewRating: 5,
+            datePublished: '2024-01-15',
+          },
+          {
+            author: 'Jane Smith',
+            reviewBody: 'Great experience overall.',
+            reviewRating: 4,
+            datePublished: '2024-01-10',
+          },
+        ],
+      });
+
+      expect(schema['@type']).toBe('LocalBusiness');
+      expect(schema.name).toBe('My Business');
+      expect(schema.aggregateRating).toEqual({
+        '@type': 'AggregateRating',
+        ratingValue: 4.8,
+        reviewCount: 150,
+        bestRating: 5,
+        worstRating: 1,
+      });
+      expect(schema.review).toHaveLength(2);
+      expect(schema.review[0]?.author).toMatchObject({ '@type': 'Person', name: 'John Doe' });
+      expect(schema.review[0]?.reviewRating.ratingValue).toBe(5);
+    });
+
+    it('should allow custom rating scale', () => {
+      const schema = createReviewSchema({
+        organization: {
+          name: 'My Business',
+          url: 'https://mybusiness.com',
+        },
+        reviewCount: 100,
+        ratingValue: 8.5,
+        bestRating: 10,
+        worstRating: 0,
+        reviews: [],
+      });
+
+      expect(schema.aggregateRating.bestRating).toBe(10);
+      expect(schema.aggregateRating.worstRating).toBe(0);
+    });
+
+    it('should keep the organization url and id', () => {
+      const schema = createReviewSchema({
+        organization: {
+          name: 'My Business',
+          url: 'https://mybusiness.com',
+          id: 'https://mybusiness.com/#business',
+        },
+        reviewCount: 1,
+        ratingValue: 5,
+        reviews: [],
+      });
+
+      expect(schema['@id']).toBe('https://mybusiness.com/#business');
+      expect(schema.url).toBe('https://mybusiness.com');
+    });
+
+    it('should review items of any type with organization authors', () => {
+      const schema = createReviewSchema({
+        itemReviewed: { type: 'Book', name: 'The Widget Handbook', url: 'https://example.com/book' },
+        reviewCount: 12,
+        ratingValue: 4.2,
+        reviews: [
+          {
+            author: { type: 'Organization', name: 'Widget Weekly', url: 'https://example.com/ww' },
+            reviewBody: 'A must-read.',
+            reviewRating: 5,
+            datePublished: '2024-02-01',
+          },
+        ],
+      });
+
+      expect(schema['@type']).toBe('Book');
+      expect(schema.name).toBe('The Widget Handbook');
+      expect(schema.url).toBe('https://example.com/book');
+      expect(schema.review[0]?.author).toEqual({
+        '@type': 'Organization',
+        name: 'Widget Weekly',
+        url: 'https://example.com/ww',
+      });
+    });
+
+    it('should attach ratings to a referenced node in a graph', () => {
+      const product = {
+        ...createProductSchema({
+          name: 'Widget',
+          description: 'A widget',
+          price: 9.99,
+          priceCurrency: 'USD',
+        }),
+        '@id': 'https://example.com/#widget',
+      };
+      const ratings = createReviewSchema({
+        itemReviewed: { type: 'Product', id: 'https://example.com/#widget' },
+        reviewCount: 3,
+        ratingValue: 4,
+        reviews: [],
+      });
+
+      expect(ratings).not.toHaveProperty('name');
+
+      const graph = mergeSchemas([product, ratings], { graph: true });
+      expect(graph['@graph']).toHaveLength(1);
+      expect(graph['@graph'][0]).toMatchObject({
+        '@type': 'Product',
+        name: 'Widget',
+        aggregateRating: { ratingValue: 4, reviewCount: 3 },
+      });
+    });
+
+    it('should sanitize review bodies when requested', () => {
+      const schema = createReviewSchema({
+        itemReviewed: { type: 'Product', name: 'Widget' },
+        reviewCount: 1,
+        ratingValue: 5,
+        reviews: [
+          {
+            author: 'John Doe',
+            reviewBody: 'Works <em>great</em>!<script>track()</script><img src="x.png">',
+            reviewRating: 5,
+            datePublished: '2024-01-15',
+          },
+        ],
+        sanitize: 'allowlist',
+      });
+
+      expect(schema.review[0]?.reviewBody).toBe('Works <em>great</em>!');
+    });
+  });
+
+  describe('attachReviews', () => {
+    it('should add ratings to a schema from another generator', () => {
+      const product = createProductSchema({ name: 'Widget', description: 'A widget' });
+      const schema = attachReviews(product, {
+        reviewCount: 8,
+        ratingValue: 9,
+        bestRating: 10,
+        reviews: [
+          { author: 'Jane Smith', reviewBody: 'Great.', reviewRating: 9, datePublished: '2024-02-01' },
+        ],
+      });
+
+      expect(schema['@type']).toBe('Product');
+      expect(schema.name).toBe('Widget');
+      expect(schema.aggregateRating).toEqual({
+        '@type': 'AggregateRating',
+        ratingValue: 9,
+        reviewCount: 8,
+        bestRating: 10,
+        worstRating: 1,
+      });
+      expect(schema.review[0]?.reviewRating.bestRating).toBe(10);
+      expect(product).not.toHaveProperty('aggregateRating');
+      expect(validateSchema(schema).errors).toEqual([]);
+    });
+  });
+
+  describe('createProductSchema', () => {
+    it('should create a basic product schema', () => {
+      const schema = createProductSchema({
+        name: 'Premium Widget',
+        description: 'High-quality widget for all your needs',
+      });
+
+      expect(schema['@type']).toBe('Product');
+      expect(schema.name).toBe('Premium Widget');
+      expect(schema.description).toBe('High-quality widget for all your needs');
+    });
+
+    it('should include all optional product fields', () => {
+      const schema = createProductSchema({
+        name: 'Premium Widget',
+        description: 'High-quality widget for all your needs',
+        image: ['https://example.com/widget1.jpg', 'https://example.com/widget2.jpg'],
+        url: 'https://example.com/products/widget',
+        brand: 'WidgetCo',
+        sku: 'WGT-001',
+        price: 29.99,
+        priceCurrency: 'USD',
+        availability: 'InStock',
+      });
+
+      expect(schema.image).toHaveLength(2);
+      expect(schema.url).toBe('https://example.com/products/widget');
+      expect(schema.brand).toEqual({ '@type': 'Brand', name: 'WidgetCo' });
+      expect(schema.sku).toBe('WGT-001');
+      expect(schema.offers).toEqual({
+        '@type': 'Offer',
+        price: '29.99',
+        priceCurrency: 'USD',
+        availability: 'https://schema.org/InStock',
+      });
+    });
+
+    it('should add GTIN and MPN identifiers', () => {
+      const schema = createProductSchema({
+        name: 'Premium Widget',
+        description: 'High-quality widget',
+        gtin: '00012345600012',
+        mpn: 'WGT-1000',
+      });
+
+      expect(schema.gtin).toBe('00012345600012');
+      expect(schema.mpn).toBe('WGT-1000');
+    });
+
+    it('should add multiple offers with merchant details', () => {
+      const schema = createProductSchema({
+        name: 'Premium Widget',
+        description: 'High-quality widget',
+        price: 29.99,
+        priceCurrency: 'USD',
+        availability: 'InStock',
+        offers: {
+          price: 19.5,
+          priceCurrency: 'USD',
+          availability: 'LimitedAvailability',
+          itemCondition: 'RefurbishedCondition',
+          priceValidUntil: '2024-12-31',
+          url: 'https://example.com/products/widget?condition=refurbished',
+          seller: 'Widget Outlet',
+        },
+      });
+
+      expect(schema.offers).toEqual([
+        {
+          '@type': 'Offer',
+          price: '29.99',
+          priceCurrency: 'USD',
+          availability: 'https://schema.org/InStock',
+        },
+        {
+          '@type': 'Offer',
+          price: '19.50',
+          priceCurrency: 'USD',
+          availability: 'https://schema.org/LimitedAvailability',
+          itemCondition: 'https://schema.org/RefurbishedCondition',
+          priceValidUntil: '2024-12-31',
+          url: 'https://example.com/products/widget?condition=refurbished',
+          seller: { '@type': 'Organization', name: 'Widget Outlet' },
+        },
+      ]);
+    });
+
+    it('should add an aggregate offer containing individual offers', () => {
+      const schema = createProductSchema({
+        name: 'Premium Widget',
+        description: 'High-quality widget',
+        aggregateOffer: { lowPrice: 19.5, highPrice: 29.99, priceCurrency: 'USD', offerCount: 2 },
+        offers: [
+          { price: 19.5, priceCurrency: 'USD', seller: 'Shop A' },
+          { price: 29.99, priceCurrency: 'USD', seller: 'Shop B' },
+        ],
+      });
+
+      expect(schema.offers).toEqual({
+        '@type': 'AggregateOffer',
+        lowPrice: '19.50',
+        highPrice: '29.99',
+        priceCurrency: 'USD',
+        offerCount: 2,
+        offers: [
+          {
+            '@type': 'Offer',
+            price: '19.50',
+            priceCurrency: 'USD',
+            seller: { '@type': 'Organization', name: 'Shop A' },
+          },
+          {
+            '@type': 'Offer',
+            price: '29.99',
+            priceCurrency: 'USD',
+            seller: { '@type': 'Organization', name: 'Shop B' },
+          },
+        ],
+      });
+    });
+
+    it('should add shipping details and a return policy to every offer', () => {
+      const schema = createProductSchema({
+        name: 'Premium Widget',
+        description: 'High-quality widget',
+        offers: [
+          { price: 29.99, priceCurrency: 'USD' },
+          {
+            price: 27.99,
+            priceCurrency: 'USD',
+            hasMerchantReturnPolicy: {
+              applicableCountry: 'US',
+              returnPolicyCategory: 'MerchantReturnNotPermitted',
+            },
+          },
+        ],
+        shippingDetails: {
+          shippingRate: { value: 4.95, currency: 'USD' },
+          shippingCountry: 'US',
+          shippingRegion: ['US-CA', 'US-NV'],
+          handlingTime: { minDays: 0, maxDays: 1 },
+          transitTime: { minDays: 1, maxDays: 5 },
+        },
+        hasMerchantReturnPolicy: {
+          applicableCountry: ['US', 'CA'],
+          returnPolicyCategory: 'MerchantReturnFiniteReturnWindow',
+          merchantReturnDays: 30,
+          returnMethod: 'ReturnByMail',
+          returnFees: 'ReturnShippingFees',
+          returnShippingFeesAmount: { value: 5, currency: 'USD' },
+        },
+      });
+
+      const [first, second] = schema.offers as OfferJsonLd[];
+      const shippingDetails = {
+        '@type': 'OfferShippingDetails',
+        shippingRate: { '@type': 'MonetaryAmount', value: 4.95, currency: 'USD' },
+        shippingDestination: {
+          '@type': 'DefinedRegion',
+          addressCountry: 'US',
+          addressRegion: ['US-CA', 'US-NV'],
+        },
+        deliveryTime: {
+          '@type': 'ShippingDeliveryTime',
+          handlingTime: { '@type': 'QuantitativeValue', minValue: 0, maxValue: 1, unitCode: 'DAY' },
+          transitTime: { '@type': 'QuantitativeValue', minValue: 1, maxValue: 5, unitCode: 'DAY' },
+        },
+      };
+
+      expect(first?.shippingDetails).toEqual(shippingDetails);
+      expect(first?.hasMerchantReturnPolicy).toEqual({
+        '@type': 'MerchantReturnPolicy',
+        applicableCountry: ['US', 'CA'],
+        returnPolicyCategory: 'https://schema.org/MerchantReturnFiniteReturnWindow',
+        merchantReturnDays: 30,
+        returnMethod: 'https://schema.org/ReturnByMail',
+        returnFees: 'https://schema.org/ReturnShippingFees',
+        returnShippingFeesAmount: { '@type': 'MonetaryAmount', value: 5, currency: 'USD' },
+      });
+      expect(second?.shippingDetails).toEqual(shippingDetails);
+      expect(second?.hasMerchantReturnPolicy).toEqual({
+        '@type': 'MerchantReturnPolicy',
+        applicableCountry: 'US',
+        returnPolicyCategory: 'https://schema.org/MerchantReturnNotPermitted',
+      });
+    });
+
+    it('should add aggregate rating and reviews', () => {
+      const schema = createProductSchema({
+        name: 'Premium Widget',
+        description: 'High-quality widget',
+        aggregateRating: { ratingValue: 8.7, reviewCount: 24, bestRating: 10, worstRating: 0 },
+        reviews: [
+          {
+            author: 'Jane Smith',
+            reviewBody: 'Works great.',
+            reviewRating: 9,
+            datePublished: '2024-02-01',
+          },
+        ],
+      });
+
+      expect(schema.aggregateRating).toEqual({
+        '@type': 'AggregateRating',
+        ratingValue: 8.7,
+        reviewCount: 24,
+        bestRating: 10,
+        worstRating: 0,
+      });
+      expect(schema.review).toEqual([
+        {
+          '@type': 'Review',
+          author: { '@type': 'Person', name: 'Jane Smith' },
+          reviewBody: 'Works great.',
+          reviewRating: { '@type': 'Rating', ratingValue: 9, bestRating: 10, worstRating: 0 },
+          datePublished: '2024-02-01',
+        },
+      ]);
+      expect(validateSchema(schema).errors).toEqual([]);
+    });
+  });
+
+  describe('createProductGroupSchema', () => {
+    const sweater = {
+      name: 'Wool Sweater',
+      description: 'Warm merino wool sweater',
+      brand: 'KnitCo',
+      productGroupID: 'SWTR',
+    };
+
+    it('should create product group with variants', () => {
+      const schema = createProductGroupSchema({
+        ...sweater,
+        variesBy: ['color', 'size'],
+        variants: [
+          { sku: 'SWTR-RED-M', color: 'Red', size: 'M', price: 59, priceCurrency: 'USD' },
+          { sku: 'SWTR-BLU-L', color: 'Blue', size: 'L', price: 64.5, priceCurrency: 'USD' },
+        ],
+      });
+
+      expect(schema).toEqual({
+        '@context': 'https://schema.org',
+        '@type': 'ProductGroup',
+        name: 'Wool Sweater',
+        description: 'Warm merino wool sweater',
+        productGroupID: 'SWTR',
+        variesBy: ['https://schema.org/color', 'https://schema.org/size'],
+        brand: { '@type': 'Brand', name: 'KnitCo' },
+        hasVariant: [
+          {
+            '@type': 'Product',
+            name: 'Wool Sweater - Red, M',
+            sku: 'SWTR-RED-M',
+            color: 'Red',
+            size: 'M',
+            offers: { '@type': 'Offer', price: '59.00', priceCurrency: 'USD' },
+          },
+          {
+            '@type': 'Product',
+            name: 'Wool Sweater - Blue, L',
+            sku: 'SWTR-BLU-L',
+            color: 'Blue',
+            size: 'L',
+            offers: { '@type': 'Offer', price: '64.50', priceCurrency: 'USD' },
+          },
+        ],
+      });
+    });
+
+    it('should keep variant names, descriptions and brands when given', () => {
+      const schema = createProductGroupSchema({
+        ...sweater,
+        variesBy: 'pattern',
+        variants: [
+          {
+            name: 'Striped Sweater',
+            description: 'Limited edition stripes',
+            brand: 'KnitCo Studio',
+            pattern: 'Striped',
+          },
+        ],
+      });
+
+      expect(schema.hasVariant[0]).toEqual({
+        '@type': 'Product',
+        name: 'Striped Sweater',
+        description: 'Limited edition stripes',
+        brand: { '@type': 'Brand', name: 'KnitCo Studio' },
+        pattern: 'Striped',
+      });
+    });
+
+    it('should apply group shipping and return policy to variant offers', () => {
+      const schema = createProductGroupSchema({
+        ...sweater,
+        variesBy: 'size',
+        shippingDetails: {
+          shippingRate: { value: 0, currency: 'USD' },
+          shippingCountry: 'US',
+        },
+        hasMerchantReturnPolicy: {
+          applicableCountry: 'US',
+          returnPolicyCategory: 'MerchantReturnNotPermitted',
+        },
+        variants: [
+          { size: 'S', price: 59, priceCurrency: 'USD' },
+          {
+            size: 'XL',
+            offers: {
+              price: 69,
+              priceCurrency: 'USD',
+              hasMerchantReturnPolicy: {
+                applicableCountry: 'US',
+                returnPolicyCategory: 'MerchantReturnUnlimitedWindow',
+              },
+            },
+          },
+        ],
+      });
+
+      const [small, large] = schema.hasVariant;
+      const smallOffer = small?.offers as OfferJsonLd;
+      const largeOffer = large?.offers as OfferJsonLd;
+      expect(smallOffer.shippingDetails).toMatchObject({ '@type': 'OfferShippingDetails' });
+      expect(smallOffer.hasMerchantReturnPolicy?.returnPolicyCategory).toBe(
+        'https://schema.org/MerchantReturnNotPermitted'
+      );
+      expect(largeOffer.shippingDetails).toMatchObject({ '@type': 'OfferShippingDetails' });
+      expect(largeOffer.hasMerchantReturnPolicy?.returnPolicyCategory).toBe(
+        'https://schema.org/MerchantReturnUnlimitedWindow'
+      );
+    });
+
+    it('should validate variants against inherited group properties', () => {
+      const schema = createProductGroupSchema({
+        ...sweater,
+        image: 'https://example.com/sweater.jpg',
+        aggregateRating: { ratingValue: 4.6, reviewCount: 31 },
+        variesBy: 'size',
+        variants: [{ sku: 'SWTR-S', size: 'S' }],
+      });
+
+      expect(validateSchema(schema)).toEqual({ valid: true, errors: [], warnings: [] });
+    });
+  });
+
+  describe('createArticleSchema', () => {
+    it('should create an article schema', () => {
+      const schema = createArticleSchema({
+        headline: 'How to Build Accessible Websites',
+        datePublished: '2024-01-15',
+        author: 'Jane Smith',
+        publisher: 'Tech Blog',
+      });
+
+      expect(schema['@type']).toBe('Article');
+      expect(schema.headline).toBe('How to Build Accessible Websites');
+      expect(schema.datePublished).toBe('2024-01-15');
+      expect(schema.author.name).toBe('Jane Smith');
+      expect(schema.publisher.name).toBe('Tech Blog');
+    });
+
+    it('should include all optional article fields', () => {
+      const schema = createArticleSchema({
+        headline: 'How to Build Accessible Websites',
+        description: 'A comprehensive guide to web accessibility',
+        image: 'https://example.com/article.jpg',
+        datePublished: '2024-01-15',
+        dateModified: '2024-01-20',
+        author: 'Jane Smith',
+        publisher: 'Tech Blog',
+        publisherLogo: 'https://example.com/logo.png',
+        url: 'https://example.com/articles/accessible-websites',
+      });
+
+      expect(schema.description).toBe('A comprehensive guide to web accessibility');
+      expect(schema.image).toBe('https://example.com/article.jpg');
+      expect(schema.dateModified).toBe('2024-01-20');
+      expect(schema.publisher.logo).toEqual({
+        '@type': 'ImageObject',
+        url: 'https://example.com/logo.png',
+      });
+      expect(schema.mainEntityOfPage).toEqual({
+        '@type': 'WebPage',
+        '@id': 'https://example.com/articles/accessible-websites',
+      });
+    });
+
+    it('should omit the publisher logo when not provided', () => {
+      const schema = createArticleSchema({
+        headline: 'Headline',
+        datePublished: '2024-01-15',
+        author: 'Jane Smith',
+        publisher: 'Tech Blog',
+      });
+
+      expect(schema.publisher).toEqual({ '@type': 'Organization', name: 'Tech Blog' });
+      expect('logo' in schema.publisher).toBe(false);
+    });
+
+    it('should support article types and metadata', () => {
+      const schema = createArticleSchema({
+        type: 'NewsArticle',
+        headline: 'City Council Approves Budget',
+        image: ['https://example.com/1x1.jpg', 'https://example.com/16x9.jpg'],
+        datePublished: '2024-03-01T08:00:00Z',
+        author: 'Jane Smith',
+        publisher: 'Daily News',
+        articleSection: 'Politics',
+        wordCount: 850,
+        keywords: ['budget', 'city council'],
+        inLanguage: 'en-US',
+      });
+
+      expect(schema['@type']).toBe('NewsArticle');
+      expect(schema.image).toEqual(['https://example.com/1x1.jpg', 'https://example.com/16x9.jpg']);
+      expect(schema.articleSection).toBe('Politics');
+      expect(schema.wordCount).toBe(850);
+      expect(schema.keywords).toEqual(['budget', 'city council']);
+      expect(schema.inLanguage).toBe('en-US');
+      expect(validateSchema(schema).errors).toEqual([]);
+    });
+
+    it('should support multiple person and organization authors', () => {
+      const schema = createArticleSchema({
+        type: 'BlogPosting',
+        headline: 'Release Notes',
+        datePublished: '2024-03-01',
+        author: [
+          'Jane Smith',
+          {
+            name: 'John Doe',
+            url: 'https://example.com/authors/john',
+            sameAs: ['https://github.com/johndoe'],
+            id: 'https://example.com/#john',
+          },
+          { type: 'Organization', name: 'Tech Blog Team', url: 'https://example.com/team' },
+        ],
+        publisher: 'Tech Blog',
+      });
+
+      expect(schema.author).toEqual([
+        { '@type': 'Person', name: 'Jane Smith' },
+        {
+          '@type': 'Person',
+          '@id': 'https://example.com/#john',
+          name: 'John Doe',
+          url: 'https://example.com/authors/john',
+          sameAs: ['https://github.com/johndoe'],
+        },
+        { '@type': 'Organization', name: 'Tech Blog Team', url: 'https://example.com/team' },
+      ]);
+    });
+
+    it('should sanitize the description when requested', () => {
+      const schema = createArticleSchema({
+        headline: 'Spring Menu',
+        description: '<div class="intro"><b>New</b> dishes &amp; drinks</div>',
+        datePublished: '2024-03-01',
+        author: 'Jane Smith',
+        publisher: 'Food Blog',
+        sanitize: 'strip',
+      });
+
+      expect(schema.description).toBe('New dishes & drinks');
+    });
+  });
+
+  describe('createEventSchema', () => {
+    it('should create a basic event schema', () => {
+      const schema = createEventSchema({
+        name: 'Tech Conference 2024',
+        startDate: '2024-06-15T09:00:00Z',
+      });
+
+      expect(schema['@type']).toBe('Event');
+      expect(schema.name).toBe('Tech Conference 2024');
+      expect(schema.startDate).toBe('2024-06-15T09:00:00Z');
+    });
+
+    it('should include all optional event fields', () => {
+      const schema = createEventSchema({
+        name: 'Tech Conference 2024',
+        description: 'Annual technology conference',
+        startDate: '2024-06-15T09:00:00Z',
+        endDate: '2024-06-17T18:00:00Z',
+        location: {
+          name: 'Convention Center',
+          address: '123 Main St, San Francisco, CA',
+        },
+        url: 'https://example.com/events/tech-conf-2024',
+        image: 'https://example.com/event.jpg',
+        eventStatus: 'EventScheduled',
+        eventAttendanceMode: 'OfflineEventAttendanceMode',
+      });
+
+      expect(schema.description).toBe('Annual technology conference');
+      expect(schema.endDate).toBe('2024-06-17T18:00:00Z');
+      expect(schema.location?.name).toBe('Convention Center');
+      expect(schema.location?.address?.streetAddress).toBe('123 Main St, San Francisco, CA');
+      expect(schema.url).toBe('https://example.com/events/tech-conf-2024');
+      expect(schema.image).toBe('https://example.com/event.jpg');
+      expect(schema.eventStatus).toBe('https://schema.org/EventScheduled');
+      expect(schema.eventAttendanceMode).toBe('https://schema.org/OfflineEventAttendanceMode');
+    });
+
+    it('should accept a structured location address', () => {
+      const schema = createEventSchema({
+        name: 'Tech Conference 2024',
+        startDate: '2024-06-15T09:00:00Z',
+        location: {
+          name: 'Convention Center',
+          address: {
+            streetAddress: '747 Howard St',
+            addressLocality: 'San Francisco',
+            addressRegion: 'CA',
+            postalCode: '94103',
+            addressCountry: 'US',
+          },
+        },
+      });
+
+      expect(schema.location).toEqual({
+        '@type': 'Place',
+        name: 'Convention Center',
+        address: {
+          '@type': 'PostalAddress',
+          streetAddress: '747 Howard St',
+          addressLocality: 'San Francisco',
+          addressRegion: 'CA',
+          postalCode: '94103',
+          addressCountry: 'US',
+        },
+      });
+    });
+
+    it('should create an online event with a virtual location', () => {
+      const schema = createEventSchema({
+        name: 'Web Performance Webinar',
+        startDate: '2024-06-15T17:00:00Z',
+        location: { url: 'https://example.com/live', name: 'Example Live' },
+      });
+
+      expect(schema.location).toEqual({
+        '@type': 'VirtualLocation',
+        url: 'https://example.com/live',
+        name: 'Example Live',
+      });
+      expect(schema.eventAttendanceMode).toBe('https://schema.org/OnlineEventAttendanceMode');
+    });
+
+    it('should create a mixed event with a venue and a virtual location', () => {
+      const schema = createEventSchema({
+        name: 'Tech Conference 2024',
+        startDate: '2024-06-15T09:00:00Z',
+        location: [
+          { name: 'Convention Center', address: '747 Howard St, San Francisco, CA' },
+          { url: 'https://example.com/live' },
+        ],
+      });
+
+      expect(schema.location).toEqual([
+        {
+          '@type': 'Place',
+          name: 'Convention Center',
+          address: { '@type': 'PostalAddress', streetAddress: '747 Howard St, San Francisco, CA' },
+        },
+        { '@type': 'VirtualLocation', url: 'https://example.com/live' },
+      ]);
+      expect(schema.eventAttendanceMode).toBe('https://schema.org/MixedEventAttendanceMode');
+    });
+
+    it('should keep a venue with a url as a physical place', () => {
+      const venue = {
+        name: 'Convention Center',
+        address: '747 Howard St, San Francisco, CA',
+        url: 'https://example.com/venue',
+      };
+      const schema = createEventSchema({
+        name: 'Tech Conference 2024',
+        startDate: '2024-06-15T09:00:00Z',
+        location: venue,
+      });
+
+      expect(schema.location).toEqual({
+        '@type': 'Place',
+        name: 'Convention Center',
+        address: { '@type': 'PostalAddress', streetAddress: '747 Howard St, San Francisco, CA' },
+      });
+    });
+
+    it('should add offers, performers, organizer and previous start date', () => {
+      const schema = createEventSchema({
+        name: 'Summer Concert',
+        startDate: '2024-07-20T19:00:00Z',
+        location: { name: 'City Park', address: '1 Park Ave' },
+        eventStatus: 'EventRescheduled',
+        previousStartDate: '2024-07-13T19:00:00Z',
+        offers: [
+          {
+            price: 30,
+            priceCurrency: 'USD',
+            availability: 'InStock',
+            validFrom: '2024-05-01T10:00:00Z',
+            url: 'https://example.com/tickets',
+          },
+          { price: 0, priceCurrency: 'USD', availability: 'SoldOut' },
+        ],
+        performer: ['Jane Smith', { type: 'MusicGroup', name: 'The Widgets' }],
+        organizer: { name: 'City Events', url: 'https://example.com' },
+      });
+
+      expect(schema.previousStartDate).toBe('2024-07-13T19:00:00Z');
+      expect(schema.offers).toEqual([
+        {
+          '@type': 'Offer',
+          price: '30.00',
+          priceCurrency: 'USD',
+          availability: 'https://schema.org/InStock',
+          validFrom: '2024-05-01T10:00:00Z',
+          url: 'https://example.com/tickets',
+        },
+        {
+          '@type': 'Offer',
+          price: '0.00',
+          priceCurrency: 'USD',
+          availability: 'https://schema.org/SoldOut',
+        },
+      ]);
+      expect(schema.performer).toEqual([
+        { '@type': 'Person', name: 'Jane Smith' },
+        { '@type': 'MusicGroup', name: 'The Widgets' },
+      ]);
+      expect(schema.organizer).toEqual({
+        '@type': 'Organization',
+        name: 'City Events',
+        url: 'https://example.com',
+      });
+      expect(validateSchema(schema).errors).toEqual([]);
+    });
+  });
+
+  describe('createWebSiteSchema', () => {
+    it('should create a website schema with a search action', () => {
+      const schema = createWebSiteSchema({
+        name: 'Tech Blog',
+        url: 'https://example.com',
+        alternateName: 'TB',
+        searchUrlTemplate: 'https://example.com/search?q={query}',
+        inLanguage: 'en-US',
+        publisher: 'Tech Blog Inc.',
+      });
+
+      expect(schema).toEqual({
+        '@context': 'https://schema.org',
+        '@type': 'WebSite',
+        name: 'Tech Blog',
+        url: 'https://example.com',
+        alternateName: 'TB',
+        inLanguage: 'en-US',
+        publisher: { '@type': 'Organization', name: 'Tech Blog Inc.' },
+        potentialAction: {
+          '@type': 'SearchAction',
+          target: { '@type': 'EntryPoint', urlTemplate: 'https://example.com/search?q={query}' },
+          'query-input': 'required name=query',
+        },
+      });
+      expect(validateSchema(schema).errors).toEqual([]);
+    });
+
+    it('should reference the publisher by @id', () => {
+      const schema = createWebSiteSchema({
+        name: 'Tech Blog',
+        url: 'https://example.com',
+        publisher: { '@id': 'https://example.com/#org' },
+        id: 'https://example.com/#website',
+      });
+
+      expect(schema['@id']).toBe('https://example.com/#website');
+      expect(schema.publisher).toEqual({ '@id': 'https://example.com/#org' });
+      expect(schema.potentialAction).toBeUndefined();
+    });
+  });
+
+  describe('createWebPageSchema', () => {
+    it('should create a web page schema', () => {
+      const schema = createWebPageSchema({
+        name: 'About Us',
+        url: 'https://example.com/about',
+      });
+
+      expect(schema).toEqual({
+        '@context': 'https://schema.org',
+        '@type': 'WebPage',
+        name: 'About Us',
+        url: 'https://example.com/about',
+      });
+    });
+
+    it('should support page types, breadcrumbs, images and dates', () => {
+      const schema = createWebPageSchema({
+        type: 'CollectionPage',
+        name: 'Widgets',
+        url: 'https://example.com/products/widgets',
+        description: 'All widgets',
+        breadcrumb: createBreadcrumbSchema([
+          { name: 'Home', url: 'https://example.com' },
+          { name: 'Widgets', url: 'https://example.com/products/widgets' },
+        ]),
+        primaryImageOfPage: 'https://example.com/widgets.jpg',
+        datePublished: '2024-01-15',
+        dateModified: '2024-02-01',
+        inLanguage: 'en-US',
+        isPartOf: { '@id': 'https://example.com/#website' },
+      });
+
+      expect(schema['@type']).toBe('CollectionPage');
+      expect(schema.breadcrumb).toEqual({
+        '@type': 'BreadcrumbList',
+        itemListElement: [
+          { '@type': 'ListItem', position: 1, name: 'Home', item: 'https://example.com' },
+          {
+            '@type': 'ListItem',
+            position: 2,
+            name: 'Widgets',
+            item: 'https://example.com/products/widgets',
+          },
+        ],
+      });
+      expect(schema.primaryImageOfPage).toEqual({
+        '@type': 'ImageObject',
+        url: 'https://example.com/widgets.jpg',
+      });
+      expect(schema.datePublished).toBe('2024-01-15');
+      expect(schema.dateModified).toBe('2024-02-01');
+      expect(schema.isPartOf).toEqual({ '@id': 'https://example.com/#website' });
+      expect(validateSchema(schema).errors).toEqual([]);
+    });
+
+    it('should link to a breadcrumb list by @id in a graph', () => {
+      const breadcrumb = createBreadcrumbSchema(
+        [
+          { name: 'Home', url: 'https://example.com' },
+          { name: 'Contact', url: 'https://example.com/contact' },
+        ],
+        { id: 'https://example.com/contact#breadcrumb' }
+      );
+      const page = createWebPageSchema({
+        type: 'ContactPage',
+        name: 'Contact',
+        url: 'https://example.com/contact',
+        breadcrumb: { '@id': 'https://example.com/contact#breadcrumb' },
+      });
+
+      expect(page.breadcrumb).toEqual({ '@id': 'https://example.com/contact#breadcrumb' });
+      expect(mergeSchemas([page, breadcrumb], { graph: true })['@graph']).toHaveLength(2);
+    });
+  });
+
+  describe('createRecipeSchema', () => {
+    it('should create a recipe with only the required fields', () => {
+      const schema = createRecipeSchema({
+        name: 'Banana Bread',
+        image: 'https://example.com/banana-bread.jpg',
+      });
+
+      expect(schema).toEqual({
+        '@context': 'https://schema.org',
+        '@type': 'Recipe',
+        name: 'Banana Bread',
+        image: 'https://example.com/banana-bread.jpg',
+      });
+    });
+
+    it('should include ingredients, instructions, durations and nutrition', () => {
+      const schema = createRecipeSchema({
+        name: 'Banana Bread',
+        image: ['https://example.com/1x1.jpg', 'https://example.com/16x9.jpg'],
+        description: 'A moist banana bread.',
+        author: 'Jane Smith',
+        datePublished: '2024-03-01',
+        prepTime: { minutes: 15 },
+        cookTime: { hours: 1 },
+        totalTime: 'PT1H15M',
+        recipeYield: 8,
+        recipeCategory: 'Dessert',
+        recipeCuisine: 'American',
+        keywords: ['banana', 'bread'],
+        ingredients: ['3 ripe bananas', '2 cups of flour'],
+        instructions: ['Mash the bananas.', { name: 'Bake', text: 'Bake for 1 hour.' }],
+        nutrition: { calories: 240, fatContent: '9 g' },
+        aggregateRating: { ratingValue: 4.8, ratingCount: 120 },
+      });
+
+      expect(schema.author).toEqual({ '@type': 'Person', name: 'Jane Smith' });
+      expect(schema.prepTime).toBe('PT15M');
+      expect(schema.cookTime).toBe('PT1H');
+      expect(schema.totalTime).toBe('PT1H15M');
+      expect(schema.recipeYield).toBe(8);
+      expect(schema.recipeIngredient).toEqual(['3 ripe bananas', '2 cups of flour']);
+      expect(schema.recipeInstructions).toEqual([
+        { '@type': 'HowToStep', text: 'Mash the bananas.' },
+        { '@type': 'HowToStep', name: 'Bake', text: 'Bake for 1 hour.' },
+      ]);
+      expect(schema.nutrition).toEqual({
+        '@type': 'NutritionInformation',
+        calories: '240 calories',
+        fatContent: '9 g',
+      });
+      expect(schema.aggregateRating?.ratingValue).toBe(4.8);
+      expect(validateSchema(schema)).toEqual({ valid: true, errors: [], warnings: [] });
+    });
+
+    it('should group instructions into sections', () => {
+      const schema = createRecipeSchema({
+        name: 'Layer Cake',
+        image: 'https://example.com/cake.jpg',
+        instructions: [
+          { name: 'Cake', steps: ['Mix the batter.', 'Bake the layers.'] },
+          {
+            name: 'Frosting',
+            steps: [{ text: 'Whip the cream.', url: 'https://example.com/cake#frosting' }],
+          },
+        ],
+      });
+
+      expect(schema.recipeInstructions).toEqual([
+        {
+          '@type': 'HowToSection',
+          name: 'Cake',
+          itemListElement: [
+            { '@type': 'HowToStep', text: 'Mix the batter.' },
+            { '@type': 'HowToStep', text: 'Bake the layers.' },
+          ],
+        },
+        {
+          '@type': 'HowToSection',
+          name: 'Frosting',
+          itemListElement: [
+            {
+              '@type': 'HowToStep',
+              text: 'Whip the cream.',
+              url: 'https://example.com/cake#frosting',
+            },
+          ],
+        },
+      ]);
+      expect(validateSchema(schema).errors).toEqual([]);
+    });
+
+    it('should build durations with days', () => {
+      const schema = createRecipeSchema({
+        name: 'Sourdough',
+        image: 'https://example.com/sourdough.jpg',
+        prepTime: { days: 1, hours: 2 },
+        cookTime: { days: 2 },
+      });
+
+      expect(schema.prepTime).toBe('P1DT2H');
+      expect(schema.cookTime).toBe('P2D');
+    });
+  });
+
+  describe('createHowToSchema', () => {
+    it('should create a guide with steps, tools, supplies and cost', () => {
+      const schema = createHowToSchema({
+        name: 'How to Replace a Bike Tire',
+        description: 'Swap a punctured inner tube.',
+        image: 'https://example.com/tire.jpg',
+        totalTime: { minutes: 20 },
+        estimatedCost: { value: 8, currency: 'USD' },
+        tools: ['Tire levers', 'Pump'],
+        supplies: ['Inner tube'],
+        steps: [
+          { name: 'Remove the wheel', text: 'Open the brake and release the wheel.' },
+          'Replace the tube.',
+        ],
+      });
+
+      expect(schema).toEqual({
+        '@context': 'https://schema.org',
+        '@type': 'HowTo',
+        name: 'How to Replace a Bike Tire',
+        description: 'Swap a punctured inner tube.',
+        image: 'https://example.com/tire.jpg',
+        totalTime: 'PT20M',
+        estimatedCost: { '@type': 'MonetaryAmount', value: 8, currency: 'USD' },
+        tool: [
+          { '@type': 'HowToTool', name: 'Tire levers' },
+          { '@type': 'HowToTool', name: 'Pump' },
+        ],
+        supply: [{ '@type': 'HowToSupply', name: 'Inner tube' }],
+        step: [
+          {
+            '@type': 'HowToStep',
+            name: 'Remove the wheel',
+            text: 'Open the brake and release the wheel.',
+          },
+          { '@type': 'HowToStep', text: 'Replace the tube.' },
+        ],
+      });
+      expect(validateSchema(schema)).toEqual({ valid: true, errors: [], warnings: [] });
+    });
+
+    it('should omit optional fields that are not provided', () => {
+      const schema = createHowToSchema({
+        name: 'Tie a Knot',
+        steps: ['Cross the ends.'],
+        tools: [],
+      });
+
+      expect(schema).not.toHaveProperty('tool');
+      expect(schema).not.toHaveProperty('totalTime');
+      expect(schema).not.toHaveProperty('@id');
+    });
+  });
+
+  describe('createJobPostingSchema', () => {
+    it('should create a job posting with an address, salary range and identifier', () => {
+      const schema = createJobPostingSchema({
+        title: 'Senior Frontend Engineer',
+        description: '<p>Build our Next.js storefront.</p>',
+        datePosted: '2024-03-01',
+        validThrough: '2024-04-30T00:00',
+        employmentType: ['FULL_TIME', 'CONTRACTOR'],
+        hiringOrganization: {
+          name: 'Acme Inc',
+          url: 'https://acme.com',
+          logo: 'https://acme.com/logo.png',
+        },
+        jobLocation: { addressLocality: 'Berlin', addressCountry: 'DE' },
+        baseSalary: { currency: 'EUR', minValue: 70000, maxValue: 90000, unit: 'YEAR' },
+        identifier: { name: 'Acme Inc', value: 'FE-1234' },
+      });
+
+      expect(schema).toEqual({
+        '@context': 'https://schema.org',
+        '@type': 'JobPosting',
+        title: 'Senior Frontend Engineer',
+        description: '<p>Build our Next.js storefront.</p>',
+        datePosted: '2024-03-01',
+        validThrough: '2024-04-30T00:00',
+        employmentType: ['FULL_TIME', 'CONTRACTOR'],
+        hiringOrganization: {
+          '@type': 'Organization',
+          name: 'Acme Inc',
+          url: 'https://acme.com',
+          logo: 'https://acme.com/logo.png',
+        },
+        jobLocation: {
+          '@type': 'Place',
+          address: { '@type': 'PostalAddress', addressLocality: 'Berlin', addressCountry: 'DE' },
+        },
+        baseSalary: {
+          '@type': 'MonetaryAmount',
+          currency: 'EUR',
+          value: {
+            '@type': 'QuantitativeValue',
+            minValue: 70000,
+            maxValue: 90000,
+            unitText: 'YEAR',
+          },
+        },
+        identifier: { '@type': 'PropertyValue', name: 'Acme Inc', value: 'FE-1234' },
+      });
+      expect(validateSchema(schema).errors).toEqual([]);
+    });
+
+    it('should mark remote jobs with their applicant location requirements', () => {
+      const schema = createJobPostingSchema({
+        title: 'Support Engineer',
+        description: 'Help our customers.',
+        datePosted: '2024-03-01',
+        hiringOrganization: { '@id': 'https://acme.com/#org' },
+        jobLocation: 'TELECOMMUTE',
+        applicantLocationRequirements: ['USA', { type: 'State', name: 'Ontario' }],
+      });
+
+      expect(schema.hiringOrganization).toEqual({ '@id': 'https://acme.com/#org' });
+      expect(schema.jobLocationType).toBe('TELECOMMUTE');
+      expect(schema).not.toHaveProperty('jobLocation');
+      expect(schema.applicantLocationRequirements).toEqual([
+        { '@type': 'Country', name: 'USA' },
+        { '@type': 'State', name: 'Ontario' },
+      ]);
+      expect(validateSchema(schema).errors).toEqual([]);
+    });
+
+    it('should emit several job locations as an array', () => {
+      const schema = createJobPostingSchema({
+        title: 'Store Manager',
+        description: 'Run a store.',
+        datePosted: '2024-03-01',
+        hiringOrganization: { name: 'Acme Inc', url: 'https://acme.com' },
+        jobLocation: [{ addressLocality: 'Berlin' }, { addressLocality: 'Hamburg' }],
+        baseSalary: { currency: 'EUR', value: 25, unit: 'HOUR' },
+      });
+
+      expect(schema.jobLocation).toHaveLength(2);
+      expect(schema.baseSalary?.value).toEqual({
+        '@type': 'QuantitativeValue',
+        value: 25,
+        unitText: 'HOUR',
+      });
+    });
+
+    it('should omit empty location lists', () => {
+      const schema = createJobPostingSchema({
+        title: 'Store Manager',
+        description: 'Run a store.',
+        datePosted: '2024-03-01',
+        hiringOrganization: { name: 'Acme Inc', url: 'https://acme.com' },
+        jobLocation: [],
+        applicantLocationRequirements: [],
+      });
+
+      expect(schema).not.toHaveProperty('jobLocation');
+      expect(schema).not.toHaveProperty('applicantLocationRequirements');
+    });
+  });
+
+  describe('createPersonSchema', () => {
+    it('should create a person with only a name', () => {
+      expect(createPersonSchema({ name: 'Jane Smith' })).toEqual({
+        '@context': 'https://schema.org',
+        '@type': 'Person',
+        name: 'Jane Smith',
+      });
+    });
+
+    it('should include job, employer, education and expertise', () => {
+      const schema = createPersonSchema({
+        id: 'https://example.com/#jane',
+        name: 'Jane Smith',
+        url: 'https://example.com/authors/jane',
+        image: 'https://example.com/jane.jpg',
+        jobTitle: 'Editor in Chief',
+        worksFor: { name: 'Tech Blog', url: 'https://example.com' },
+        alumniOf: ['University of Oxford', 'MIT'],
+        knowsAbout: ['TypeScript', 'Structured data'],
+        sameAs: ['https://twitter.com/janesmith'],
+      });
+
+      expect(schema['@id']).toBe('https://example.com/#jane');
+      expect(schema.jobTitle).toBe('Editor in Chief');
+      expect(schema.worksFor).toEqual({
+        '@type': 'Organization',
+        name: 'Tech Blog',
+        url: 'https://example.com',
+      });
+      expect(schema.alumniOf).toEqual([
+        { '@type': 'EducationalOrganization', name: 'University of Oxford' },
+        { '@type': 'EducationalOrganization', name: 'MIT' },
+      ]);
+      expect(schema.knowsAbout).toEqual(['TypeScript', 'Structured data']);
+      expect(validateSchema(schema).errors).toEqual([]);
+    });
+
+    it('should reference the employer by @id', () => {
+      const schema = createPersonSchema({
+        name: 'Jane Smith',
+        worksFor: { '@id': 'https://example.com/#org' },
+        alumniOf: 'MIT',
+      });
+
+      expect(schema.worksFor).toEqual({ '@id': 'https://example.com/#org' });
+      expect(schema.alumniOf).toEqual({ '@type': 'EducationalOrganization', name: 'MIT' });
+    });
+  });
+
+  describe('createProfilePageSchema', () => {
+    it('should create a profile page with interaction statistics', () => {
+      const schema = createProfilePageSchema({
+        url: 'https://example.com/authors/jane',
+        dateCreated: '2020-01-15',
+        dateModified: '2024-03-01',
+        mainEntity: {
+          name: 'Jane Smith',
+          interactionStatistics: { followers: 1200, likes: 300, posts: 85 },
+        },
+      });
+
+      expect(schema).toEqual({
+        '@context': 'https://schema.org',
+        '@type': 'ProfilePage',
+        url: 'https://example.com/authors/jane',
+        dateCreated: '2020-01-15',
+        dateModified: '2024-03-01',
+        mainEntity: {
+          '@type': 'Person',
+          name: 'Jane Smith',
+          interactionStatistic: [
+            {
+              '@type': 'InteractionCounter',
+              interactionType: 'https://schema.org/FollowAction',
+              userInteractionCount: 1200,
+            },
+            {
+              '@type': 'InteractionCounter',
+              interactionType: 'https://schema.org/LikeAction',
+              userInteractionCount: 300,
+            },
+          ],
+          agentInteractionStatistic: {
+            '@type': 'InteractionCounter',
+            interactionType: 'https://schema.org/WriteAction',
+            userInteractionCount: 85,
+          },
+        },
+      });
+      expect(validateSchema(schema)).toEqual({ valid: true, errors: [], warnings: [] });
+    });
+
+    it('should nest a person schema without its @context', () => {
+      const person = createPersonSchema({ id: 'https://example.com/#jane', name: 'Jane Smith' });
+      const schema = createProfilePageSchema({ mainEntity: person });
+
+      expect(schema.mainEntity).toEqual({
+        '@type': 'Person',
+        '@id': 'https://example.com/#jane',
+        name: 'Jane Smith',
+      });
+    });
+
+    it('should reference the main entity by @id', () => {
+      const schema = createProfilePageSchema({
+        mainEntity: { '@id': 'https://example.com/#jane' },
+      });
+
+      expect(schema.mainEntity).toEqual({ '@id': 'https://example.com/#jane' });
+      expect(validateSchema(schema).warnings.map((warning) => warning.path)).toEqual([
+        '$.dateCreated',
+        '$.dateModified',
+      ]);
+    });
+  });
+
+  describe('createImageObjectSchema', () => {
+    it('should create an image with licensing metadata', () => {
+      const schema = createImageObjectSchema({
+        url: 'https://example.com/photos/harbor.jpg',
+        width: 1200,
+        height: 800,
+        caption: 'The harbor at dawn',
+        creator: 'Jane Smith',
+        creditText: 'Jane Smith / Example Photos',
+        copyrightNotice: '© 2024 Example Photos',
+        license: 'https://example.com/license',
+        acquireLicensePage: 'https://example.com/photos/harbor/buy',
+      });
+
+      expect(schema).toEqual({
+        '@context': 'https://schema.org',
+        '@type': 'ImageObject',
+        url: 'https://example.com/photos/harbor.jpg',
+        contentUrl: 'https://example.com/photos/harbor.jpg',
+        width: 1200,
+        height: 800,
+        caption: 'The harbor at dawn',
+        creator: { '@type': 'Person', name: 'Jane Smith' },
+        creditText: 'Jane Smith / Example Photos',
+        copyrightNotice: '© 2024 Example Photos',
+        license: 'https://example.com/license',
+        acquireLicensePage: 'https://example.com/photos/harbor/buy',
+      });
+      expect(validateSchema(schema)).toEqual({ valid: true, errors: [], warnings: [] });
+    });
+
+    it('should be accepted by image and logo options', () => {
+      const photo = createImageObjectSchema({
+        url: 'https://example.com/widget.jpg',
+        width: 800,
+        height: 600,
+      });
+      const logo = createImageObjectSchema({ url: 'https://example.com/logo.png' });
+
+      const product = createProductSchema({
+        name: 'Widget',
+        description: 'A widget',
+        image: [photo, 'https://example.com/widget-side.jpg'],
+      });
+      const organization = createOrganizationSchema({
+        organization: { name: 'Acme', url: 'https://example.com', logo },
+        type: 'Organization',
+      });
+      const article = createArticleSchema({
+        headline: 'Widgets',
+        datePublished: '2024-01-15',
+        author: 'Jane Smith',
+        publisher: 'Acme',
+        publisherLogo: logo,
+        image: photo,
+      });
+
+      expect(product.image).toEqual([
+        {
+          '@type': 'ImageObject',
+          url: 'https://example.com/widget.jpg',
+          contentUrl: 'https://example.com/widget.jpg',
+          width: 800,
+          height: 600,
+        },
+        'https://example.com/widget-side.jpg',
+      ]);
+      expect(organization.logo).not.toHaveProperty('@context');
+      expect(article.publisher).toEqual({
+        '@type': 'Organization',
+        name: 'Acme',
+        logo: {
+          '@type': 'ImageObject',
+          url: 'https://example.com/logo.png',
+          contentUrl: 'https://example.com/logo.png',
+        },
+      });
+      expect(article.image).not.toHaveProperty('@context');
+    });
+  });
+
+  describe('createVideoObjectSchema', () => {
+    it('should create a video with clips', () => {
+      const schema = createVideoObjectSchema({
+        name: 'Baking Banana Bread',
+        description: 'Step-by-step banana bread.',
+        thumbnailUrl: 'https://example.com/video/thumbnail.jpg',
+        uploadDate: '2024-03-01T08:00:00+00:00',
+        duration: { minutes: 12 },
+        contentUrl: 'https://example.com/video/banana-bread.mp4',
+        embedUrl: 'https://example.com/embed/banana-bread',
+        clips: [
+          {
+            name: 'Ingredients',
+            startOffset: 0,
+            endOffset: 60,
+            url: 'https://example.com/video?t=0',
+          },
+          { name: 'Baking', startOffset: 420, url: 'https://example.com/video?t=420' },
+        ],
+      });
+
+      expect(schema).toEqual({
+        '@context': 'https://schema.org',
+        '@type': 'VideoObject',
+        name: 'Baking Banana Bread',
+        description: 'Step-by-step banana bread.',
+        thumbnailUrl: 'https://example.com/video/thumbnail.jpg',
+        uploadDate: '2024-03-01T08:00:00+00:00',
+        duration: 'PT12M',
+        contentUrl: 'https://example.com/video/banana-bread.mp4',
+        embedUrl: 'https://example.com/embed/banana-bread',
+        hasPart: [
+          {
+            '@type': 'Clip',
+            name: 'Ingredients',
+            startOffset: 0,
+            endOffset: 60,
+            url: 'https://example.com/video?t=0',
+          },
+          {
+            '@type': 'Clip',
+            name: 'Baking',
+            startOffset: 420,
+            url: 'https://example.com/video?t=420',
+          },
+        ],
+      });
+      expect(validateSchema(schema)).toEqual({ valid: true, errors: [], warnings: [] });
+    });
+
+    it('should add a SeekToAction for automatic key moments', () => {
+      const schema = createVideoObjectSchema({
+        name: 'Baking Banana Bread',
+        thumbnailUrl: ['https://example.com/1x1.jpg', 'https://example.com/16x9.jpg'],
+        uploadDate: '2024-03-01',
+        embedUrl: 'https://example.com/embed/banana-bread',
+        seekToUrlTemplate: 'https://example.com/video?t={seek_to_second_number}',
+      });
+
+      expect(schema.potentialAction).toEqual({
+        '@type': 'SeekToAction',
+        target: 'https://example.com/video?t={seek_to_second_number}',
+        'startOffset-input': 'required name=seek_to_second_number',
+      });
+      expect(schema).not.toHaveProperty('hasPart');
+      expect(validateSchema(schema).errors).toEqual([]);
+    });
+  });
+
+  describe('createCourseSchema', () => {
+    it('should create a course with provider, offers and instances', () => {
+      const schema = createCourseSchema({
+        name: 'Introduction to TypeScript',
+        description: 'Learn TypeScript from the ground up.',
+        provider: { name: 'Code Academy', url: 'https://codeacademy.example' },
+        offers: { price: 49, priceCurrency: 'USD', category: 'Paid' },
+        hasCourseInstance: [
+          {
+            courseMode: 'Online',
+            courseWorkload: { hours: 16 },
+            instructor: 'Jane Smith',
+          },
+          {
+            courseMode: 'Onsite',
+            courseSchedule: {
+              duration: { hours: 2 },
+              repeatFrequency: 'Weekly',
+              repeatCount: 8,
+              startDate: '2024-09-01',
+            },
+            instructor: [{ '@id': 'https://codeacademy.example/#john' }],
+          },
+        ],
+        aggregateRating: { ratingValue: 4.7, ratingCount: 320 },
+      });
+
+      expect(schema.provider).toEqual({
+        '@type': 'Organization',
+        name: 'Code Academy',
+        url: 'https://codeacademy.example',
+      });
+      expect(schema.offers).toEqual({
+        '@type': 'Offer',
+        price: '49.00',
+        priceCurrency: 'USD',
+        category: 'Paid',
+      });
+      expect(schema.hasCourseInstance).toEqual([
+        {
+          '@type': 'CourseInstance',
+          courseMode: 'Online',
+          courseWorkload: 'PT16H',
+          instructor: { '@type': 'Person', name: 'Jane Smith' },
+        },
+        {
+          '@type': 'CourseInstance',
+          courseMode: 'Onsite',
+          courseSchedule: {
+            '@type': 'Schedule',
+            duration: 'PT2H',
+            repeatFrequency: 'Weekly',
+            repeatCount: 8,
+            startDate: '2024-09-01',
+          },
+          instructor: [{ '@id': 'https://codeacademy.example/#john' }],
+        },
+      ]);
+      expect(validateSchema(schema).errors).toEqual([]);
+    });
+
+    it('should omit optional fields that are not provided', () => {
+      expect(
+        createCourseSchema({ name: 'TypeScript 101', description: 'Learn TypeScript.' })
+      ).toEqual({
+        '@context': 'https://schema.org',
+        '@type': 'Course',
+        name: 'TypeScript 101',
+        description: 'Learn TypeScript.',
+      });
+    });
+  });
+
+  describe('createSoftwareApplicationSchema', () => {
+    it('should create an application with offers and rating', () => {
+      const schema = createSoftwareApplicationSchema({
+        type: 'MobileApplication',
+        name: 'Habit Tracker',
+        applicationCategory: 'HealthApplication',
+        operatingSystem: ['iOS 16', 'Android 10'],
+        offers: { price: 0, priceCurrency: 'USD' },
+        aggregateRating: { ratingValue: 4.6, ratingCount: 8864 },
+      });
+
+      expect(schema).toEqual({
+        '@context': 'https://schema.org',
+        '@type': 'MobileApplication',
+        name: 'Habit Tracker',
+        applicationCategory: 'HealthApplication',
+        operatingSystem: 'iOS 16, Android 10',
+        offers: { '@type': 'Offer', price: '0.00', priceCurrency: 'USD' },
+        aggregateRating: {
+          '@type': 'AggregateRating',
+          ratingValue: 4.6,
+          ratingCount: 8864,
+          bestRating: 5,
+          worstRating: 1,
+        },
+      });
+      expect(validateSchema(schema).errors).toEqual([]);
+    });
+
+    it('should require a rating or review', () => {
+      const result = validateSchema(
+        createSoftwareApplicationSchema({
+          name: 'Habit Tracker',
+          offers: { price: 0, priceCurrency: 'USD' },
+        })
+      );
+
+      expect(result.valid).toBe(false);
+      expect(result.errors.map((error) => error.path)).toEqual(['$']);
+    });
+  });
+
+  describe('createBookSchema', () => {
+    it('should create a book with editions and a read action', () => {
+      const schema = createBookSchema({
+        id: 'https://example.com/books/the-harbor',
+        name: 'The Harbor',
+        author: 'Jane Smith',
+        url: 'https://example.com/books/the-harbor',
+        sameAs: ['https://en.wikipedia.org/wiki/The_Harbor'],
+        editions: [
+          {
+            isbn: '9780000000001',
+            bookFormat: 'Hardcover',
+            bookEdition: '2nd edition',
+            inLanguage: 'en',
+            datePublished: '2023-05-01',
+            numberOfPages: 320,
+            readAction: { url: 'https://example.com/books/the-harbor/buy' },
+          },
+          {
+            isbn: '9780000000002',
+            bookFormat: 'EBook',
+            readAction: {
+              url: 'https://example.com/books/the-harbor/read',
+              platforms: ['IOSPlatform', 'AndroidPlatform'],
+            },
+          },
+        ],
+      });
+
+      expect(schema.author).toEqual({ '@type': 'Person', name: 'Jane Smith' });
+      expect(schema.workExample).toEqual([
+        {
+          '@type': 'Book',
+          isbn: '9780000000001',
+          bookFormat: 'https://schema.org/Hardcover',
+          bookEdition: '2nd edition',
+          inLanguage: 'en',
+          datePublished: '2023-05-01',
+          numberOfPages: 320,
+          potentialAction: {
+            '@type': 'ReadAction',
+            target: {
+              '@type': 'EntryPoint',
+              urlTemplate: 'https://example.com/books/the-harbor/buy',
+              actionPlatform: [
+                'https://schema.org/DesktopWebPlatform',
+                'https://schema.org/MobileWebPlatform',
+              ],
+            },
+          },
+        },
+        {
+          '@type': 'Book',
+          isbn: '9780000000002',
+          bookFormat: 'https://schema.org/EBook',
+          potentialAction: {
+            '@type': 'ReadAction',
+            target: {
+              '@type': 'EntryPoint',
+              urlTemplate: 'https://example.com/books/the-harbor/read',
+              actionPlatform: [
+                'https://schema.org/IOSPlatform',
+                'https://schema.org/AndroidPlatform',
+              ],
+            },
+          },
+        },
+      ]);
+      expect(validateSchema(schema)).toEqual({ valid: true, errors: [], warnings: [] });
+    });
+
+    it('should emit a single edition as an object', () => {
+      const schema = createBookSchema({
+        name: 'The Harbor',
+        author: [{ '@id': 'https://example.com/#jane' }, 'John Doe'],
+        editions: [{ isbn: '9780000000001' }],
+      });
+
+      expect(schema.author).toEqual([
+        { '@id': 'https://example.com/#jane' },
+        { '@type': 'Person', name: 'John Doe' },
+      ]);
+      expect(schema.workExample).toEqual({ '@type': 'Book', isbn: '9780000000001' });
+    });
+  });
+
+  describe('createDatasetSchema', () => {
+    const description =
+      'Daily rainfall measured at 42 weather stations across the city, 2010 to 2020.';
+
+    it('should create a dataset with distribution, coverage and catalog', () => {
+      const schema = createDatasetSchema({
+        name: 'City Rainfall 2010-2020',
+        description,
+        url: 'https://example.com/data/rainfall',
+        license: 'https://creativecommons.org/licenses/by/4.0/',
+        creator: 'City Weather Office',
+        keywords: ['rainfall', 'weather'],
+        identifier: 'https://doi.org/10.1000/182',
+        isAccessibleForFree: true,
+        distribution: [
+          { contentUrl: 'https://example.com/rainfall.csv', encodingFormat: 'text/csv' },
+          { contentUrl: 'https://example.com/rainfall.json' },
+        ],
+        temporalCoverage: { start: '2010-01-01', end: '2020-12-31' },
+        spatialCoverage: { city: 'Berlin', country: 'DE' },
+        variableMeasured: ['Station', { name: 'Rainfall', unitText: 'mm' }],
+        includedInDataCatalog: { name: 'City Open Data', url: 'https://example.com/data' },
+      });
+
+      expect(schema.creator).toEqual({ '@type': 'Organization', name: 'City Weather Office' });
+      expect(schema.distribution).toEqual([
+        {
+          '@type': 'DataDownload',
+          contentUrl: 'https://example.com/rainfall.csv',
+          encodingFormat: 'text/csv',
+        },
+        { '@type': 'DataDownload', contentUrl: 'https://example.com/rainfall.json' },
+      ]);
+      expect(schema.temporalCoverage).toBe('2010-01-01/2020-12-31');
+      expect(schema.spatialCoverage).toEqual({
+        '@type': 'City',
+        name: 'Berlin',
+        containedInPlace: { '@type': 'Country', name: 'DE' },
+      });
+      expect(schema.variableMeasured).toEqual([
+        'Station',
+        { '@type': 'PropertyValue', name: 'Rainfall', unitText: 'mm' },
+      ]);
+      expect(schema.includedInDataCatalog).toEqual({
+        '@type': 'DataCatalog',
+        name: 'City Open Data',
+        url: 'https://example.com/data',
+      });
+      expect(validateSchema(schema).errors).toEqual([]);
+    });
+
+    it('should place coordinates and circles in a Place', () => {
+      const point = createDatasetSchema({
+        name: 'Station 12',
+        description,
+        spatialCoverage: { latitude: 52.52, longitude: 13.405 },
+        temporalCoverage: { start: '2010-01-01' },
+      });
+      const circle = createDatasetSchema({
+        name: 'Metro Area',
+        description,
+        spatialCoverage: {
+          geoMidpoint: { latitude: 52.52, longitude: 13.405 },
+          geoRadius: '30km',
+        },
+      });
+
+      expect(point.spatialCoverage).toEqual({
+        '@type': 'Place',
+        geo: { '@type': 'GeoCoordinates', latitude: 52.52, longitude: 13.405 },
+      });
+      expect(point.temporalCoverage).toBe('2010-01-01/..');
+      expect(circle.spatialCoverage).toEqual({
+        '@type': 'Place',
+        geo: {
+          '@type': 'GeoCircle',
+          geoMidpoint: { '@type': 'GeoCoordinates', latitude: 52.52, longitude: 13.405 },
+          geoRadius: '30km',
+        },
+      });
+      expect(validateSchema(circle).errors).toEqual([]);
+    });
+  });
+
+  describe('createItemListSchema', () => {
+    it('should list detail page URLs in summary mode', () => {
+      const schema = createItemListSchema({
+        urls: ['https://example.com/recipes/banana-bread', 'https://example.com/recipes/scones'],
+      });
+
+      expect(schema).toEqual({
+        '@context': 'https://schema.org',
+        '@type': 'ItemList',
+        itemListElement: [
+          { '@type': 'ListItem', position: 1, url: 'https://example.com/recipes/banana-bread' },
+          { '@type': 'ListItem', position: 2, url: 'https://example.com/recipes/scones' },
+        ],
+      });
+      expect(validateSchema(schema)).toEqual({ valid: true, errors: [], warnings: [] });
+    });
+
+    it('should continue positions across pages', () => {
+      const schema = createItemListSchema({
+        name: 'Recipes',
+        url: 'https://example.com/recipes?page=3',
+        urls: ['https://example.com/recipes/21', 'https://example.com/recipes/22'],
+        itemListOrder: 'Ascending',
+        numberOfItems: 22,
+        pagination: { page: 3, pageSize: 10 },
+      });
+
+      expect(schema.itemListElement.map((element) => element.position)).toEqual([21, 22]);
+      expect(schema.itemListOrder).toBe('https://schema.org/ItemListOrderAscending');
+      expect(schema.numberOfItems).toBe(22);
+      expect(schema.name).toBe('Recipes');
+    });
+
+    it('should embed full items without their @context in all-in-one mode', () => {
+      const schema = createItemListSchema({
+        itemListOrder: 'Descending',
+        items: [
+          createRecipeSchema({
+            name: 'Banana Bread',
+            image: 'https://example.com/banana-bread.jpg',
+            id: 'https://example.com/recipes/banana-bread#recipe',
+          }),
+          createCourseSchema({
+            name: 'TypeScript 101',
+            description: 'Learn TypeScript.',
+            url: 'https://example.com/courses/typescript',
+          }),
+        ],
+      });
+
+      expect(schema.itemListElement[0]).toEqual({
+        '@type': 'ListItem',
+        position: 1,
+        item: {
+          '@type': 'Recipe',
+          '@id': 'https://example.com/recipes/banana-bread#recipe',
+          name: 'Banana Bread',
+          image: 'https://example.com/banana-bread.jpg',
+        },
+      });
+      expect(schema.itemListElement[1]?.item).not.toHaveProperty('@context');
+      expect(validateSchema(schema).errors).toEqual([
+        {
+          path: '$.itemListElement[0].item.url',
+          severity: 'error',
+          message: 'Items embedded in an ItemList require a "url" to their detail page',
+        },
+      ]);
+    });
+  });
+
+  describe('createQAPageSchema', () => {
+    const answer = (id: number, upvoteCount?: number) => ({
+      text: `Answer ${id}`,
+      author: `User ${id}`,
+      datePublished: '2024-03-01',
+      url: `https://example.com/questions/42#answer-${id}`,
+      upvoteCount,
+    });
+
+    it('should create a question with accepted and suggested answers', () => {
+      const schema = createQAPageSchema({
+        question: {
+          name: 'How do I reset my router?',
+          text: 'The lights keep blinking after a power cut.',
+          author: 'Alex',
+          datePublished: '2024-03-01',
+          upvoteCount: 5,
+          acceptedAnswer: answer(1, 12),
+          suggestedAnswers: [answer(2, 3), answer(3)],
+        },
+      });
+
+      expect(schema).toEqual({
+        '@context': 'https://schema.org',
+        '@type': 'QAPage',
+        mainEntity: {
+          '@type': 'Question',
+          name: 'How do I reset my router?',
+          text: 'The lights keep blinking after a power cut.',
+          author: { '@type': 'Person', name: 'Alex' },
+          datePublished: '2024-03-01',
+          upvoteCount: 5,
+          answerCount: 3,
+          acceptedAnswer: {
+            '@type': 'Answer',
+            text: 'Answer 1',
+            author: { '@type': 'Person', name: 'User 1' },
+            datePublished: '2024-03-01',
+            url: 'https://example.com/questions/42#answer-1',
+            upvoteCount: 12,
+          },
+          suggestedAnswer: [
+            {
+              '@type': 'Answer',
+              text: 'Answer 2',
+              author: { '@type': 'Person', name: 'User 2' },
+              datePublished: '2024-03-01',
+              url: 'https://example.com/questions/42#answer-2',
+              upvoteCount: 3,
+            },
+            {
+              '@type': 'Answer',
+              text: 'Answer 3',
+              author: { '@type': 'Person', name: 'User 3' },
+              datePublished: '2024-03-01',
+              url: 'https://example.com/questions/42#answer-3',
+            },
+          ],
+        },
+      });
+      expect(validateSchema(schema).errors).toEqual([]);
+    });
+
+    it('should accept a question without an accepted answer', () => {
+      const schema = createQAPageSchema({
+        question: {
+          name: 'Is this router any good?',
+          answerCount: 8,
+          suggestedAnswers: [answer(1)],
+        },
+      });
+
+      expect(schema.mainEntity.answerCount).toBe(8);
+      expect(schema.mainEntity).not.toHaveProperty('acceptedAnswer');
+      expect(validateSchema(schema).errors).toEqual([]);
+    });
+
+    it('should report a question without answers', () => {
+      const result = validateSchema(createQAPageSchema({ question: { name: 'Anyone?' } }));
+
+      expect(result.errors).toEqual([
+        {
+          path: '$.mainEntity',
+          severity: 'error',
+          message: 'Question requires one of "acceptedAnswer" or "suggestedAnswer"',
+        },
+      ]);
+    });
+  });
+
+  describe('createDiscussionForumPostingSchema', () => {
+    it('should create a post with comment threads and interaction statistics', () => {
+      const schema = createDiscussionForumPostingSchema({
+        headline: 'Best trails near Berlin?',
+        text: 'Looking for day hikes reachable by train.',
+        author: 'Alex',
+        datePublished: '2024-03-01T09:00:00+01:00',
+        url: 'https://example.com/forum/trails',
+        interactionStatistics: { likes: 14, views: 320, comments: 2 },
+        comments: [
+          {
+            text: 'Try the Grunewald loop.',
+            author: { name: 'Sam', url: 'https://example.com/users/sam' },
+            datePublished: '2024-03-01T10:00:00+01:00',
+            url: 'https://example.com/forum/trails#comment-1',
+            interactionStatistics: { likes: 3 },
+            replies: [{ text: 'Seconded!', author: 'Kim', datePublished: '2024-03-02' }],
+          },
+        ],
+      });
+
+      expect(schema.author).toEqual({ '@type': 'Person', name: 'Alex' });
+      expect(schema.interactionStatistic).toEqual([
+        {
+          '@type': 'InteractionCounter',
+          interactionType: 'https://schema.org/LikeAction',
+          userInteractionCount: 14,
+        },
+        {
+          '@type': 'InteractionCounter',
+          interactionType: 'https://schema.org/ViewAction',
+          userInteractionCount: 320,
+        },
+        {
+          '@type': 'InteractionCounter',
+          interactionType: 'https://schema.org/CommentAction',
+          userInteractionCount: 2,
+        },
+      ]);
+      expect(schema.comment).toEqual([
+        {
+          '@type': 'Comment',
+          text: 'Try the Grunewald loop.',
+          author: { '@type': 'Person', name: 'Sam', url: 'https://example.com/users/sam' },
+          datePublished: '2024-03-01T10:00:00+01:00',
+          url: 'https://example.com/forum/trails#comment-1',
+          interactionStatistic: [
+            {
+              '@type': 'InteractionCounter',
+              interactionType: 'https://schema.org/LikeAction',
+              userInteractionCount: 3,
+            },
+          ],
+          comment: [
+            {
+              '@type': 'Comment',
+              text: 'Seconded!',
+              author: { '@type': 'Person', name: 'Kim' },
+              datePublished: '2024-03-02',
+            },
+          ],
+        },
+      ]);
+      expect(validateSchema(schema)).toEqual({ valid: true, errors: [], warnings: [] });
+    });
+
+    it('should omit optional fields that are not provided', () => {
+      const schema = createDiscussionForumPostingSchema({
+        text: 'Hello',
+        author: { '@id': 'https://example.com/users/alex#person' },
+        datePublished: '2024-03-01',
+        comments: [],
+        interactionStatistics: {},
+      });
+
+      expect(schema).toEqual({
+        '@context': 'https://schema.org',
+        '@type': 'DiscussionForumPosting',
+        text: 'Hello',
+        author: { '@id': 'https://example.com/users/alex#person' },
+        datePublished: '2024-03-01',
+      });
+    });
+  });
+
+  describe('mergeSchemas', () => {
+    it('should merge multiple schemas into an array', () => {
+      const orgSchema = createOrganizationSchema({
+        organization: { name: 'My Business', url: 'https://mybusiness.com' },
+      });
+      const faqSchema = createFAQSchema([
+        { question: 'Q1?', answer: 'A1' },
+      ]);
+
+      const merged = mergeSchemas([orgSchema, faqSchema]);
+
+      expect(merged).toHaveLength(2);
+      expect(merged[0]?.['@type']).toBe('LocalBusiness');
+      expect(merged[1]?.['@type']).toBe('FAQPage');
+    });
+
+    it('should combine schemas into a single @graph document', () => {
+      const orgSchema = createOrganizationSchema({
+        organization: { name: 'My Business', url: 'https://mybusiness.com' },
+      });
+      const breadcrumbSchema = createBreadcrumbSchema([
+        { name: 'Home', url: 'https://mybusiness.com' },
+      ]);
+      const faqSchema = createFAQSchema([{ question: 'Q1?', answer: 'A1' }]);
+
+      const graph = mergeSchemas([orgSchema, breadcrumbSchema, faqSchema], { graph: true });
+
+      expect(graph['@context']).toBe('https://schema.org');
+      expect(graph['@graph']).toHaveLength(3);
+      expect(graph['@graph'].map((node) => node['@type'])).toEqual([
+        'LocalBusiness',
+        'BreadcrumbList',
+        'FAQPage',
+      ]);
+      for (const node of graph['@graph']) {
+        expect(node).not.toHaveProperty('@context');
+      }
+      // Inputs are left untouched
+      expect(orgSchema['@context']).toBe('https://schema.org');
+    });
+
+    it('should dedupe and merge nodes that share an @id', () => {
+      const conflicts: SchemaConflict[] = [];
+      const onConflict = (conflict: SchemaConflict) => conflicts.push(conflict);
+
+      const graph = mergeSchemas(
+        [
+          {
+            '@context': 'https://schema.org',
+            '@type': 'Organization',
+            '@id': 'https://example.com/#org',
+            name: 'Example',
+            sameAs: ['https://twitter.com/example'],
+            address: { '@type': 'PostalAddress', addressLocality: 'Amsterdam' },
+          },
+          createFAQSchema([{ question: 'Q1?', answer: 'A1' }]),
+          {
+            '@context': 'https://schema.org',
+            '@type': 'Organization',
+            '@id': 'https://example.com/#org',
+            name: 'Example',
+            logo: 'https://example.com/logo.png',
+            sameAs: ['https://twitter.com/example', 'https://facebook.com/example'],
+            address: { '@type': 'PostalAddress', postalCode: '1011' },
+          },
+        ],
+        { graph: true, onConflict }
+      );
+
+      expect(graph['@graph']).toHaveLength(2);
+      expect(graph['@graph'][0]).toEqual({
+        '@type': 'Organization',
+        '@id': 'https://example.com/#org',
+        name: 'Example',
+        sameAs: ['https://twitter.com/example', 'https://facebook.com/example'],
+        address: { '@type': 'PostalAddress', addressLocality: 'Amsterdam', postalCode: '1011' },
+        logo: 'https://example.com/logo.png',
+      });
+      expect(graph['@graph'][1]?.['@type']).toBe('FAQPage');
+      expect(conflicts).toHaveLength(0);
+    });
+
+    it('should keep the first value and report conflicting values', () => {
+      const conflicts: SchemaConflict[] = [];
+
+      const graph = mergeSchemas(
+        [
+          {
+            '@context': 'https://schema.org',
+            '@type': 'Organization',
+            '@id': '#org',
+            name: 'First Name',
+            address: { '@type': 'PostalAddress', postalCode: '1011' },
+          },
+          {
+            '@context': 'https://schema.org',
+            '@type': 'Organization',
+            '@id': '#org',
+            name: 'Second Name',
+            address: { '@type': 'PostalAddress', postalCode: '2022' },
+          },
+        ],
+        { graph: true, onConflict: (conflict) => conflicts.push(conflict) }
+      );
+
+      expect(graph['@graph']).toHaveLength(1);
+      expect(graph['@graph'][0]?.name).toBe('First Name');
+      expect(conflicts).toEqual([
+        { id: '#org', path: 'name', existing: 'First Name', incoming: 'Second Name' },
+        { id: '#org', path: 'address.postalCode', existing: '1011', incoming: '2022' },
+      ]);
+    });
+
+    it('should flatten nested graphs and strip nested @context keys', () => {
+      const inner = mergeSchemas(
+        [createFAQSchema([{ question: 'Q1?', answer: 'A1' }])],
+        { graph: true }
+      );
+      const graph = mergeSchemas(
+        [
+          inner,
+          {
+            '@context': 'https://schema.org',
+            '@type': 'WebPage',
+            about: { '@context': 'https://schema.org', '@type': 'Thing', name: 'Nested' },
+          },
+        ],
+        { graph: true }
+      );
+
+      expect(graph['@graph']).toHaveLength(2);
+      expect(graph['@graph'][1]?.about).toEqual({ '@type': 'Thing', name: 'Nested' });
+    });
+
+    it('should be serializable with createJsonLdScript', () => {
+      const graph = mergeSchemas(
+        [
+          createOrganizationSchema({
+            organization: { name: 'My Business', url: 'https://mybusiness.com' },
+          }),
+        ],
+        { graph: true }
+      );
+
+      const result = createJsonLdScript(graph);
+      expect(JSON.parse(result)).toEqual(graph);
+      expect(result.match(/@context/g)).toHaveLength(1);
+    });
+  });
+
+  describe('createEntityRegistry', () => {
+    const createRegistry = () =>
+      createEntityRegistry(
+        {
+          org: createOrganizationSchema({
+            organization: { name: 'Tech Blog', url: 'https://example.com' },
+            type: 'Organization',
+          }),
+          website: {
+            '@type': 'WebSite',
+            '@id': 'https://example.com/#site',
+            name: 'Tech Blog',
+            url: 'https://example.com',
+            publisher: { '@id': 'https://example.com/#org' },
+          },
+          jane: { '@type': 'Person', name: 'Jane Smith' },
+          john: { '@type': 'Person', name: 'John Doe' },
+        },
+        { baseUrl: 'https://example.com/' }
+      );
+
+    it('should derive @ids from the base URL and keep existing ones', () => {
+      const { ref, get } = createRegistry();
+
+      expect(ref('org')).toEqual({ '@id': 'https://example.com/#org' });
+      expect(ref('website')).toEqual({ '@id': 'https://example.com/#site' });
+      expect(get('jane')).toEqual({
+        '@context': 'https://schema.org',
+        '@type': 'Person',
+        name: 'Jane Smith',
+        '@id': 'https://example.com/#jane',
+      });
+    });
+
+    it('should accept references in generators', () => {
+      const { ref } = createRegistry();
+
+      const article = createArticleSchema({
+        headline: 'Headline',
+        datePublished: '2024-01-15',
+        author: [ref('jane'), 'Guest Writer'],
+        publisher: ref('org'),
+        publisherLogo: 'https://example.com/logo.png',
+      });
+      const event = createEventSchema({
+        name: 'Meetup',
+        startDate: '2024-06-15T18:00:00Z',
+        organizer: ref('org'),
+        performer: ref('john'),
+      });
+
+      expect(article.author).toEqual([
+        { '@id': 'https://example.com/#jane' },
+        { '@type': 'Person', name: 'Guest Writer' },
+      ]);
+      expect(article.publisher).toEqual({ '@id': 'https://example.com/#org' });
+      expect(event.organizer).toEqual({ '@id': 'https://example.com/#org' });
+      expect(event.performer).toEqual({ '@id': 'https://example.com/#john' });
+    });
+
+    it('should emit one definition of every referenced entity', () => {
+      const { ref, graph } = createRegistry();
+
+      const result = graph([
+        {
+          '@context': 'https://schema.org',
+          '@type': 'WebPage',
+          '@id': 'https://example.com/blog/#webpage',
+          url: 'https://example.com/blog/',
+          isPartOf: ref('website'),
+        },
+        createArticleSchema({
+          id: 'https://example.com/blog/#article',
+          headline: 'Headline',
+          datePublished: '2024-01-15',
+          author: ref('jane'),
+          publisher: ref('org'),
+        }),
+      ]);
+
+      expect(result['@graph'].map((node) => node['@id'])).toEqual([
+        'https://example.com/#org',
+        'https://example.com/#site',
+        'https://example.com/#jane',
+        'https://example.com/blog/#webpage',
+        'https://example.com/blog/#article',
+      ]);
+      expect(result['@graph'][0]).toEqual({
+        '@type': 'Organization',
+        name: 'Tech Blog',
+        url: 'https://example.com',
+        '@id': 'https://example.com/#org',
+      });
+      expect(validateSchema(result).errors).toEqual([]);
+    });
+
+    it('should accept references as review authors', () => {
+      const { ref } = createRegistry();
+      const ratings = {
+        reviewCount: 1,
+        ratingValue: 5,
+        reviews: [
+          {
+            author: ref('jane'),
+            reviewBody: 'Great read.',
+            reviewRating: 5,
+            datePublished: '2024-01-20',
+          },
+        ],
+      };
+
+      const review = createReviewSchema({
+        itemReviewed: { type: 'Book', name: 'The Widget Handbook' },
+        ...ratings,
+      });
+      const product = attachReviews(
+        createProductSchema({ name: 'Widget', description: 'A widget', price: 10 }),
+        ratings
+      );
+
+      expect(review.review[0]?.author).toEqual({ '@id': 'https://example.com/#jane' });
+      expect(product.review[0]?.author).toEqual({ '@id': 'https://example.com/#jane' });
+    });
+
+    it('should register generated WebSite and WebPage schemas', () => {
+      const { ref, graph } = createEntityRegistry(
+        {
+          org: createOrganizationSchema({
+            organization: { name: 'Tech Blog', url: 'https://example.com' },
+            type: 'Organization',
+          }),
+          website: createWebSiteSchema({
+            name: 'Tech Blog',
+            url: 'https://example.com',
+            publisher: { '@id': 'https://example.com/#org' },
+          }),
+        },
+        { baseUrl: 'https://example.com/' }
+      );
+
+      const result = graph([
+        createWebPageSchema({
+          id: 'https://example.com/blog/#webpage',
+          name: 'Blog',
+          url: 'https://example.com/blog/',
+          isPartOf: ref('website'),
+        }),
+      ]);
+
+      expect(result['@graph'].map((node) => node['@id'])).toEqual([
+        'https://example.com/#org',
+        'https://example.com/#website',
+        'https://example.com/blog/#webpage',
+      ]);
+      expect(validateSchema(result).errors).toEqual([]);
+    });
+
+    it('should throw for entities without an @id', () => {
+      expect(() => createEntityRegistry({ org: { '@type': 'Organization' } })).toThrow(
+        'Entity "org" has no @id'
+      );
+    });
+  });
+
+  describe('parseOpeningHours', () => {
+    it('should parse day ranges, lists and split hours', () => {
+      expect(parseOpeningHours('Mo-We,Fr 09:00-12:00,13:00-17:30; Sa 10:00-14:00; Su closed')).toEqual([
+        { dayOfWeek: ['Monday', 'Tuesday', 'Wednesday', 'Friday'], opens: '09:00', closes: '12:00' },
+        { dayOfWeek: ['Monday', 'Tuesday', 'Wednesday', 'Friday'], opens: '13:00', closes: '17:30' },
+        { dayOfWeek: ['Saturday'], opens: '10:00', closes: '14:00' },
+        { dayOfWeek: ['Sunday'], closed: true },
+      ]);
+    });
+
+    it('should parse ranges that wrap around the week', () => {
+      expect(parseOpeningHours('Sa-Mo 12:00-22:00')).toEqual([
+        { dayOfWeek: ['Saturday', 'Sunday', 'Monday'], opens: '12:00', closes: '22:00' },
+      ]);
+    });
+
+    it('should ignore empty rules', () => {
+      expect(parseOpeningHours(' Mo 09:00-17:00 ; ')).toHaveLength(1);
+      expect(parseOpeningHours('')).toEqual([]);
+    });
+
+    it('should reject malformed input', () => {
+      expect(() => parseOpeningHours('Mo-Fr')).toThrow('Invalid opening hours rule "Mo-Fr"');
+      expect(() => parseOpeningHours('Xx 09:00-17:00')).toThrow('Invalid days "Xx"');
+      expect(() => parseOpeningHours('Mo 9am-5pm')).toThrow('expected HH:MM-HH:MM');
+      expect(() => parseOpeningHours('Mo 09:00-25:00')).toThrow('expected HH:MM-HH:MM');
+    });
+  });
+
+  describe('sanitizeHtml', () => {
+    it('should keep allowed tags without their attributes', () => {
+      expect(
+        sanitizeHtml(
+          '<h2 id="top">Steps</h2><OL><li onclick="x()">One</li><li>Two<br/>lines</li></OL>'
+        )
+      ).toBe('<h2>Steps</h2><ol><li>One</li><li>Two<br>lines</li></ol>');
+    });
+
+    it('should remove other tags but keep their text', () => {
+      expect(
+        sanitizeHtml('<table><tr><td>Open</td><td><span class="x">daily</span></td></tr></table>')
+      ).toBe('Open daily');
+    });
+
+    it('should drop comments and script and style content', () => {
+      expect(
+        sanitizeHtml('<p>Hi<!-- note --></p><script>alert("<b>x</b>")</script><style>p{}</style>')
+      ).toBe('<p>Hi</p>');
+      expect(sanitizeHtml('Before<script>unclosed')).toBe('Before');
+    });
+
+    it('should only keep safe link targets', () => {
+      expect(sanitizeHtml('<a href="https://example.com/?a=1&amp;b=2" rel="x">Go</a>')).toBe(
+        '<a href="https://example.com/?a=1&amp;b=2">Go</a>'
+      );
+      expect(sanitizeHtml("<a href='mailto:hi@example.com'>Mail</a>")).toBe(
+        '<a href="mailto:hi@example.com">Mail</a>'
+      );
+      expect(sanitizeHtml('<a href="javascript:alert(1)">x</a>')).toBe('<a>x</a>');
+      expect(sanitizeHtml('<a href=" java&#115;cript:alert(1)">x</a>')).toBe('<a>x</a>');
+      expect(sanitizeHtml('<a href="java&#115cript:alert(1)">x</a>')).toBe('<a>x</a>');
+      expect(sanitizeHtml('<a href="javascript&colon;alert(1)">x</a>')).toBe('<a>x</a>');
+      expect(sanitizeHtml('<a href="java&Tab;script:alert(1)">x</a>')).toBe('<a>x</a>');
+      expect(sanitizeHtml('<a href="javascript&NewLine;:alert(1)">x</a>')).toBe('<a>x</a>');
+    });
+
+    it('should escape stray angle brackets in allowlist mode', () => {
+      expect(sanitizeHtml('1 < 2 > 0 <3')).toBe('1 &lt; 2 &gt; 0 &lt;3');
+    });
+
+    it('should reduce markup to plain text in strip mode', () => {
+      expect(
+        sanitizeHtml('<p>Fish &amp; chips</p><ul><li>Daily&nbsp;&#8211; &#x263A;</li></ul>', {
+          mode: 'strip',
+        })
+      ).toBe('Fish & chips Daily \u2013 \u263a');
+    });
+
+    it('should not turn encoded markup into tags in strip mode', () => {
+      expect(
+        sanitizeHtml(
+          '&lt;a href="javascript:alert(1)"&gt;x&lt;/a&gt; &lt;script&gt;alert(1)&lt;/script&gt;',
+          { mode: 'strip' }
+        )
+      ).toBe('x');
+      expect(sanitizeHtml('1 &lt; 2 &lt;img src=x onerror=alert(1)', { mode: 'strip' })).toBe(
+        '1 < 2 img src=x onerror=alert(1)'
+      );
+    });
+
+    it('should sanitize malformed input in linear time', () => {
+      const inputs = ['<a '.repeat(50000), '<!--'.repeat(50000), '<a \'"'.repeat(50000)];
+      const start = performance.now();
+
+      for (const input of inputs) {
+        sanitizeHtml(input);
+        sanitizeHtml(input, { mode: 'strip' });
+      }
+
+      expect(performance.now() - start).toBeLessThan(1000);
+      expect(sanitizeHtml('<p>Open<!-- unclosed <b>comment</b>')).toBe('<p>Open');
+    });
+
+    it('should accept a custom list of allowed tags', () => {
+      expect(sanitizeHtml('<p><code>npm i</code></p>', { allowedTags: ['code'] })).toBe(
+        '<code>npm i</code>'
+      );
+    });
+  });
+
+  describe('typed output', () => {
+    it('should return typed product schemas', () => {
+      const schema = createProductSchema({
+        name: 'Premium Widget',
+        description: 'High-quality widget',
+        brand: 'WidgetCo',
+        price: 29.99,
+        priceCurrency: 'USD',
+      });
+
+      expectTypeOf(schema).toEqualTypeOf<ProductJsonLd<OfferJsonLd>>();
+      expectTypeOf(schema).toMatchTypeOf<ProductJsonLd>();
+      expectTypeOf(schema['@type']).toEqualTypeOf<'Product'>();
+      expectTypeOf(schema.offers).toEqualTypeOf<OfferJsonLd | undefined>();
+      expectTypeOf(schema.brand?.name).toEqualTypeOf<string | undefined>();
+      expectTypeOf(schema.aggregateRating?.ratingValue).toEqualTypeOf<number | undefined>();
+
+      const price: string | undefined = schema.offers?.price;
+      expect(price).toBe('29.99');
+    });
+
+    it('should narrow offers to an AggregateOffer', () => {
+      const schema = createProductSchema({
+        name: 'Widget',
+        description: 'A widget',
+        aggregateOffer: { lowPrice: 10, highPrice: 20, priceCurrency: 'USD' },
+      });
+
+      expectTypeOf(schema.offers).toEqualTypeOf<AggregateOfferJsonLd | undefined>();
+      expect(schema.offers?.lowPrice).toBe('10.00');
+    });
+
+    it('should only narrow event locations to a Place for venues', () => {
+      const venue = createEventSchema({
+        name: 'Meetup',
+        startDate: '2024-06-15T18:00:00Z',
+        location: { name: 'City Hall', address: '1 Main St' },
+      });
+      const online = createEventSchema({
+        name: 'Webinar',
+        startDate: '2024-06-15T18:00:00Z',
+        location: { name: 'Zoom', url: 'https://example.com/live' },
+      });
+
+      expectTypeOf(venue).toEqualTypeOf<EventJsonLd<PlaceJsonLd>>();
+      expectTypeOf(online).toEqualTypeOf<EventJsonLd>();
+      expect(online.location).toEqual({
+        '@type': 'VirtualLocation',
+        url: 'https://example.com/live',
+        name: 'Zoom',
+      });
+    });
+
+    it('should stay compatible with JSONLDSchema', () => {
+      const schemas: JSONLDSchema[] = [
+        createOrganizationSchema({ organization: { name: 'Org', url: 'https://org.com' } }),
+        createFAQSchema([{ question: 'Q1?', answer: 'A1' }]),
+        createArticleSchema({
+          headline: 'Headline',
+          datePublished: '2024-01-15',
+          author: 'Jane Smith',
+          publisher: 'Tech Blog',
+        }),
+      ];
+
+      expectTypeOf(createEventSchema).returns.toMatchTypeOf<JSONLDSchema>();
+      expectTypeOf(createFAQSchema).returns.toEqualTypeOf<FAQPageJsonLd>();
+      expectTypeOf(createArticleSchema).returns.toMatchTypeOf<ArticleJsonLd>();
+      expect(createJsonLdScript(schemas)).toContain('FAQPage');
+    });
+
+    it('should catch typos in hand-built nested nodes', () => {
+      const event: EventJsonLd<PlaceJsonLd> = {
+        '@context': 'https://schema.org',
+        '@type': 'Event',
+        name: 'Launch',
+        startDate: '2024-06-15',
+        location: {
+          '@type': 'Place',
+          name: 'Venue',
+          // @ts-expect-error misspelled property
+          adress: { '@type': 'PostalAddress', streetAddress: '123 Main St' },
+        },
+      };
+
+      expect(event.location?.name).toBe('Venue');
+    });
+
+    it('should catch top-level typos in hand-built schemas with ExactJsonLd', () => {
+      const product: ExactJsonLd<ProductJsonLd> = {
+        '@context': 'https://schema.org',
+        '@type': 'Product',
+        name: 'Widget',
+        description: 'A widget',
+        // @ts-expect-error misspelled property
+        brnad: { '@type': 'Brand', name: 'WidgetCo' },
+      };
+      const schemas: JSONLDSchema[] = [product];
+
+      expectTypeOf(product.brand).toEqualTypeOf<ProductJsonLd['brand']>();
+      expect(createJsonLdScript(schemas)).toContain('Widget');
+    });
+  });
+
+  describe('validateSchema', () => {
+    it('should accept a complete product schema', () => {
+      const result = validateSchema(
+        createProductSchema({
+          name: 'Premium Widget',
+          description: 'High-quality widget',
+          image: 'https://example.com/widget.jpg',
+          brand: 'WidgetCo',
+          sku: 'WGT-001',
+          price: 29.99,
+          priceCurrency: 'USD',
+          availability: 'InStock',
+        })
+      );
+
+      expect(result).toEqual({ valid: true, errors: [], warnings: [] });
+    });
+
+    it('should report a product whose offers were dropped', () => {
+      const result = validateSchema(
+        createProductSchema({ name: 'Widget', description: 'A widget', price: 9.99 })
+      );
+
+      expect(result.valid).toBe(false);
+      expect(result.errors).toEqual([
+        {
+          path: '$',
+          severity: 'error',
+          message: 'Product requires one of "offers", "review" or "aggregateRating"',
+        },
+      ]);
+      expect(result.warnings.map((warning) => warning.path)).toEqual([
+        '$.image',
+        '$.brand',
+        '$.sku',
+      ]);
+    });
+
+    it('should validate nested offers', () => {
+      const result = validateSchema({
+        '@context': 'https://schema.org',
+        '@type': 'Product',
+        name: 'Widget',
+        offers: { '@type': 'Offer', price: '9.99' },
+      });
+
+      expect(result.errors).toEqual([
+        {
+          path: '$.offers.priceCurrency',
+          severity: 'error',
+          message: 'Offer is missing required property "priceCurrency"',
+        },
+      ]);
+      expect(result.warnings).toContainEqual({
+        path: '$.offers.availability',
+        severity: 'warning',
+        message: 'Offer is missing recommended property "availability"',
+      });
+    });
+
+    it('should report an event without a location', () => {
+      const result = validateSchema(
+        createEventSchema({ name: 'Tech Conference', startDate: '2024-06-15T09:00:00Z' })
+      );
+
+      expect(result.valid).toBe(false);
+      expect(result.errors).toEqual([
+        {
+          path: '$.location',
+          severity: 'error',
+          message: 'Event is missing required property "location"',
+        },
+      ]);
+    });
+
+    it('should report a search action without the query placeholder', () => {
+      const website = createWebSiteSchema({
+        name: 'Tech Blog',
+        url: 'https://example.com',
+        searchUrlTemplate: 'https://example.com/search?q={search_term_string}',
+      });
+      const result = validateSchema({
+        ...website,
+        potentialAction: {
+          ...website.potentialAction,
+          'query-input': 'required name=query',
+        },
+      });
+
+      expect(result.errors).toEqual([
+        {
+          path: '$.potentialAction.target',
+          severity: 'error',
+          message: 'SearchAction "target" must contain the {query} placeholder from "query-input"',
+        },
+      ]);
+    });
+
+    it('should report a recipe duration that is not ISO 8601', () => {
+      const recipe = createRecipeSchema({
+        name: 'Banana Bread',
+        image: 'https://example.com/banana-bread.jpg',
+      });
+      const result = validateSchema({ ...recipe, cookTime: '1 hour' });
+
+      expect(result.errors).toEqual([
+        {
+          path: '$.cookTime',
+          severity: 'error',
+          message: '"cookTime" must be an ISO 8601 duration (e.g., PT1H30M)',
+        },
+      ]);
+    });
+
+    it('should report a job posting that expires before it was posted', () => {
+      const result = validateSchema(
+        createJobPostingSchema({
+          title: 'Store Manager',
+          description: 'Run a store.',
+          datePosted: '2024-03-01',
+          validThrough: '2024-02-01',
+          hiringOrganization: { name: 'Acme Inc', url: 'https://acme.com' },
+          jobLocation: { addressLocality: 'Berlin' },
+        })
+      );
+
+      expect(result.errors).toEqual([
+        {
+          path: '$.validThrough',
+          severity: 'error',
+          message: '"validThrough" must be after "datePosted"',
+        },
+      ]);
+    });
+
+    it('should report a remote job without applicant location requirements', () => {
+      const result = validateSchema(
+        createJobPostingSchema({
+          title: 'Support Engineer',
+          description: 'Help our customers.',
+          datePosted: '2024-03-01',
+          hiringOrganization: { name: 'Acme Inc', url: 'https://acme.com' },
+          jobLocation: 'TELECOMMUTE',
+        })
+      );
+
+      expect(result.errors).toEqual([
+        {
+          path: '$.applicantLocationRequirements',
+          severity: 'error',
+          message: 'Remote jobs without a "jobLocation" require "applicantLocationRequirements"',
+        },
+      ]);
+    });
+
+    it('should report a seek URL template without the placeholder', () => {
+      const result = validateSchema(
+        createVideoObjectSchema({
+          name: 'Baking Banana Bread',
+          thumbnailUrl: 'https://example.com/thumbnail.jpg',
+          uploadDate: '2024-03-01',
+          contentUrl: 'https://example.com/video.mp4',
+          seekToUrlTemplate: 'https://example.com/video?t={seconds}',
+        })
+      );
+
+      expect(result.errors).toEqual([
+        {
+          path: '$.potentialAction.target',
+          severity: 'error',
+          message: 'SeekToAction "target" must contain the {seek_to_second_number} placeholder',
+        },
+      ]);
+    });
+
+    it('should report a dataset description that is too short', () => {
+      const result = validateSchema(
+        createDatasetSchema({ name: 'Rainfall', description: 'Daily rainfall.' })
+      );
+
+      expect(result.errors).toEqual([
+        {
+          path: '$.description',
+          severity: 'error',
+          message: 'Dataset "description" must be 50 to 5000 characters long, got 15',
+        },
+      ]);
+    });
+
+    it('should require an address for event places described by coordinates only', () => {
+      const result = validateSchema({
+        '@context': 'https://schema.org',
+        '@type': 'Event',
+        name: 'Open Air Concert',
+        startDate: '2024-07-20T19:00:00Z',
+        location: {
+          '@type': 'Place',
+          name: 'City Park',
+          geo: { '@type': 'GeoCoordinates', latitude: 52.52, longitude: 13.405 },
+        },
+      });
+
+      expect(result.errors).toEqual([
+        {
+          path: '$.location.address',
+          severity: 'error',
+          message: 'Place is missing required property "address"',
+        },
+      ]);
+    });
+
+    it('should require an accepted answer for FAQ questions', () => {
+      const result = validateSchema({
+        '@context': 'https://schema.org',
+        '@type': 'FAQPage',
+        mainEntity: [
+          {
+            '@type': 'Question',
+            name: 'Q1?',
+            suggestedAnswer: { '@type': 'Answer', text: 'A1' },
+          },
+        ],
+      });
 
-      const schema = createFAQSchema(faqs);
+      expect(result.valid).toBe(false);
+      expect(result.errors).toEqual([
+        {
+          path: '$.mainEntity[0].acceptedAnswer',
+          severity: 'error',
+          message: 'Question is missing required property "acceptedAnswer"',
+        },
+      ]);
+    });
 
-      expect(schema['@type']).toBe('FAQPage');
-      expect(schema.mainEntity).toHaveLength(2);
-      expect(schema.mainEntity[0]).toEqual({
-        '@type': 'Question',
-        name: 'What are your hours?',
-        acceptedAnswer: {
-          '@type': 'Answer',
-          text: 'We are open 24/7.',
+    it('should report an online event without a virtual location', () => {
+      const result = validateSchema(
+        createEventSchema({
+          name: 'Webinar',
+          startDate: '2024-06-15T17:00:00Z',
+          location: { name: 'Studio', address: '1 Main St' },
+          eventAttendanceMode: 'OnlineEventAttendanceMode',
+          eventStatus: 'EventRescheduled',
+        })
+      );
+
+      expect(result.errors).toEqual([
+        {
+          path: '$.location',
+          severity: 'error',
+          message: 'Online and mixed events require a VirtualLocation "location"',
         },
-      });
+      ]);
+      expect(result.warnings.map((warning) => warning.path)).toContain('$.previousStartDate');
     });
-  });
 
-  describe('createBreadcrumbSchema', () => {
-    it('should create a breadcrumb schema', () => {
-      const items = [
-        { name: 'Home', url: 'https://example.com' },
-        { name: 'Products', url: 'https://example.com/products' },
-        { name: 'Widgets', url: 'https://example.com/products/widgets' },
-      ];
+    it('should report a local business without an address', () => {
+      const result = validateSchema(
+        createOrganizationSchema({
+          organization: { name: 'My Business', url: 'https://mybusiness.com' },
+        })
+      );
 
-      const schema = createBreadcrumbSchema(items);
+      expect(result.errors.map((error) => error.path)).toEqual(['$.address']);
+      expect(result.warnings.map((warning) => warning.path)).toContain('$.telephone');
+    });
 
-      expect(schema['@type']).toBe('BreadcrumbList');
-      expect(schema.itemListElement).toHaveLength(3);
-      expect(schema.itemListElement[0]).toEqual({
-        '@type': 'ListItem',
-        position: 1,
-        name: 'Home',
-        item: 'https://example.com',
+    it('should accept a local business with a postal address', () => {
+      const result = validateSchema(
+        createOrganizationSchema({
+          organization: {
+            name: 'My Business',
+            url: 'https://mybusiness.com',
+            address: {
+              streetAddress: '123 Main St',
+              addressLocality: 'New York',
+              postalCode: '10001',
+              addressCountry: 'US',
+            },
+          },
+        })
+      );
+
+      expect(result.valid).toBe(true);
+    });
+
+    it('should apply LocalBusiness rules to subtypes', () => {
+      const result = validateSchema(
+        createOrganizationSchema({
+          organization: { name: 'My Restaurant', url: 'https://myrestaurant.com' },
+          type: 'Restaurant',
+        })
+      );
+
+      expect(result.errors).toContainEqual({
+        path: '$.address',
+        severity: 'error',
+        message: 'Restaurant is missing required property "address"',
       });
-      expect(schema.itemListElement[2].position).toBe(3);
     });
-  });
 
-  describe('createReviewSchema', () => {
-    it('should create a review schema', () => {
-      const schema = createReviewSchema({
-        organization: {
-          name: 'My Business',
-          url: 'https://mybusiness.com',
-        },
-        reviewCount: 150,
-        ratingValue: 4.8,
-        reviews: [
+    it('should validate opening hours times', () => {
+      // Hand-built, as createOrganizationSchema rejects malformed times
+      const result = validateSchema({
+        '@context': 'https://schema.org',
+        '@type': 'LocalBusiness',
+        name: 'My Shop',
+        url: 'https://myshop.com',
+        openingHoursSpecification: [
           {
-            author: 'John Doe',
-            reviewBody: 'Excellent service!',
-            reviewRating: 5,
-            datePublished: '2024-01-15',
+            '@type': 'OpeningHoursSpecification',
+            dayOfWeek: ['Monday'],
+            opens: '9:00',
+            closes: '17:00',
           },
           {
-            author: 'Jane Smith',
-            reviewBody: 'Great experience overall.',
-            reviewRating: 4,
-            datePublished: '2024-01-10',
+            '@type': 'OpeningHoursSpecification',
+            opens: '00:00',
+            closes: '00:00',
+            validFrom: '2024-12-26',
+            validThrough: '2024-12-25',
           },
         ],
       });
 
-      expect(schema['@type']).toBe('LocalBusiness');
-      expect(schema.name).toBe('My Business');
-      expect(schema.aggregateRating).toEqual({
-        '@type': 'AggregateRating',
-        ratingValue: 4.8,
-        reviewCount: 150,
-        bestRating: 5,
-        worstRating: 1,
-      });
-      expect(schema.review).toHaveLength(2);
-      expect(schema.review[0].author.name).toBe('John Doe');
-      expect(schema.review[0].reviewRating.ratingValue).toBe(5);
+      expect(result.errors).toEqual(
+        expect.arrayContaining([
+          {
+            path: '$.openingHoursSpecification[0].opens',
+            severity: 'error',
+            message: 'OpeningHoursSpecification "opens" must be a time in HH:MM format',
+          },
+          {
+            path: '$.openingHoursSpecification[1].validThrough',
+            severity: 'error',
+            message: 'OpeningHoursSpecification "validThrough" must not be before "validFrom"',
+          },
+        ])
+      );
     });
 
-    it('should allow custom rating scale', () => {
-      const schema = createReviewSchema({
-        organization: {
-          name: 'My Business',
-          url: 'https://mybusiness.com',
+    it('should validate merchant return policies and shipping details', () => {
+      const result = validateSchema(
+        createProductSchema({
+          name: 'Widget',
+          description: 'A widget',
+          offers: {
+            price: 9.99,
+            priceCurrency: 'USD',
+            availability: 'InStock',
+            shippingDetails: {
+              shippingRate: { value: 0, currency: 'USD' },
+              shippingCountry: 'US',
+            },
+            hasMerchantReturnPolicy: {
+              applicableCountry: 'US',
+              returnPolicyCategory: 'MerchantReturnFiniteReturnWindow',
+            },
+          },
+        })
+      );
+
+      expect(result.errors).toEqual([
+        {
+          path: '$.offers.hasMerchantReturnPolicy.merchantReturnDays',
+          severity: 'error',
+          message:
+            'MerchantReturnPolicy is missing "merchantReturnDays" required for a finite return window',
         },
-        reviewCount: 100,
-        ratingValue: 8.5,
-        bestRating: 10,
-        worstRating: 0,
-        reviews: [],
+      ]);
+      expect(result.warnings).toContainEqual({
+        path: '$.offers.shippingDetails.deliveryTime',
+        severity: 'warning',
+        message: 'OfferShippingDetails is missing recommended property "deliveryTime"',
       });
-
-      expect(schema.aggregateRating.bestRating).toBe(10);
-      expect(schema.aggregateRating.worstRating).toBe(0);
     });
-  });
 
-  describe('createProductSchema', () => {
-    it('should create a basic product schema', () => {
-      const schema = createProductSchema({
-        name: 'Premium Widget',
-        description: 'High-quality widget for all your needs',
-      });
+    it('should validate service schemas', () => {
+      const result = validateSchema(
+        createServiceSchema({
+          name: 'Web Development',
+          description: 'Professional web development services',
+          url: 'https://mybusiness.com/services/web-development',
+          provider: { name: 'My Agency', url: 'https://myagency.com' },
+        })
+      );
 
-      expect(schema['@type']).toBe('Product');
-      expect(schema.name).toBe('Premium Widget');
-      expect(schema.description).toBe('High-quality widget for all your needs');
+      expect(result.valid).toBe(true);
+      expect(result.warnings.map((warning) => warning.path)).toEqual(
+        expect.arrayContaining(['$.serviceType', '$.provider.address'])
+      );
     });
 
-    it('should include all optional product fields', () => {
-      const schema = createProductSchema({
-        name: 'Premium Widget',
-        description: 'High-quality widget for all your needs',
-        image: ['https://example.com/widget1.jpg', 'https://example.com/widget2.jpg'],
-        url: 'https://example.com/products/widget',
-        brand: 'WidgetCo',
-        sku: 'WGT-001',
-        price: 29.99,
-        priceCurrency: 'USD',
-        availability: 'InStock',
-      });
+    it('should validate FAQ pages', () => {
+      expect(validateSchema(createFAQSchema([{ question: 'Q1?', answer: 'A1' }])).valid).toBe(
+        true
+      );
 
-      expect(schema.image).toHaveLength(2);
-      expect(schema.url).toBe('https://example.com/products/widget');
-      expect(schema.brand).toEqual({ '@type': 'Brand', name: 'WidgetCo' });
-      expect(schema.sku).toBe('WGT-001');
-      expect(schema.offers).toEqual({
-        '@type': 'Offer',
-        price: '29.99',
-        priceCurrency: 'USD',
-        availability: 'https://schema.org/InStock',
-      });
+      const empty = validateSchema(createFAQSchema([]));
+      expect(empty.errors).toEqual([
+        {
+          path: '$.mainEntity',
+          severity: 'error',
+          message: 'FAQPage is missing required property "mainEntity"',
+        },
+      ]);
+
+      const missingAnswer = validateSchema(createFAQSchema([{ question: 'Q1?', answer: '' }]));
+      expect(missingAnswer.errors).toEqual([
+        {
+          path: '$.mainEntity[0].acceptedAnswer.text',
+          severity: 'error',
+          message: 'Answer is missing required property "text"',
+        },
+      ]);
     });
-  });
 
-  describe('createArticleSchema', () => {
-    it('should create an article schema', () => {
-      const schema = createArticleSchema({
-        headline: 'How to Build Accessible Websites',
-        datePublished: '2024-01-15',
-        author: 'Jane Smith',
-        publisher: 'Tech Blog',
-      });
+    it('should validate breadcrumb lists', () => {
+      const valid = validateSchema(
+        createBreadcrumbSchema([
+          { name: 'Home', url: 'https://example.com' },
+          { name: 'Products', url: 'https://example.com/products' },
+        ])
+      );
+      expect(valid).toEqual({ valid: true, errors: [], warnings: [] });
 
-      expect(schema['@type']).toBe('Article');
-      expect(schema.headline).toBe('How to Build Accessible Websites');
-      expect(schema.datePublished).toBe('2024-01-15');
-      expect(schema.author.name).toBe('Jane Smith');
-      expect(schema.publisher.name).toBe('Tech Blog');
+      const invalid = validateSchema(
+        createBreadcrumbSchema([
+          { name: 'Home', url: '' },
+          { name: '', url: 'https://example.com/products' },
+        ])
+      );
+      expect(invalid.errors.map((error) => error.path)).toEqual([
+        '$.itemListElement[0].item',
+        '$.itemListElement[1].name',
+      ]);
+
+      const single = validateSchema(
+        createBreadcrumbSchema([{ name: 'Home', url: 'https://example.com' }])
+      );
+      expect(single.warnings).toEqual([
+        {
+          path: '$.itemListElement',
+          severity: 'warning',
+          message: 'BreadcrumbList "itemListElement" should contain at least two ListItems',
+        },
+      ]);
     });
 
-    it('should include all optional article fields', () => {
-      const schema = createArticleSchema({
-        headline: 'How to Build Accessible Websites',
-        description: 'A comprehensive guide to web accessibility',
-        image: 'https://example.com/article.jpg',
-        datePublished: '2024-01-15',
-        dateModified: '2024-01-20',
-        author: 'Jane Smith',
-        publisher: 'Tech Blog',
-        publisherLogo: 'https://example.com/logo.png',
-        url: 'https://example.com/articles/accessible-websites',
-      });
+    it('should validate reviews and ratings', () => {
+      const result = validateSchema(
+        createReviewSchema({
+          organization: { name: 'My Business', url: 'https://mybusiness.com' },
+          reviewCount: 10,
+          ratingValue: 6,
+          reviews: [
+            { author: '', reviewBody: 'Great!', reviewRating: 0, datePublished: '2024-01-15' },
+          ],
+        })
+      );
 
-      expect(schema.description).toBe('A comprehensive guide to web accessibility');
-      expect(schema.image).toBe('https://example.com/article.jpg');
-      expect(schema.dateModified).toBe('2024-01-20');
-      expect(schema.publisher.logo).toEqual({
-        '@type': 'ImageObject',
-        url: 'https://example.com/logo.png',
-      });
-      expect(schema.mainEntityOfPage).toEqual({
-        '@type': 'WebPage',
-        '@id': 'https://example.com/articles/accessible-websites',
-      });
+      expect(result.errors).toEqual(
+        expect.arrayContaining([
+          {
+            path: '$.aggregateRating.ratingValue',
+            severity: 'error',
+            message: 'AggregateRating "ratingValue" 6 is outside the rating scale 1-5',
+          },
+          {
+            path: '$.review[0].reviewRating.ratingValue',
+            severity: 'error',
+            message: 'Rating "ratingValue" 0 is outside the rating scale 1-5',
+          },
+          {
+            path: '$.review[0].author.name',
+            severity: 'error',
+            message: 'Person is missing required property "name"',
+          },
+        ])
+      );
     });
-  });
 
-  describe('createEventSchema', () => {
-    it('should create a basic event schema', () => {
-      const schema = createEventSchema({
-        name: 'Tech Conference 2024',
-        startDate: '2024-06-15T09:00:00Z',
-      });
+    it('should validate article schemas', () => {
+      const result = validateSchema(
+        createArticleSchema({
+          headline: 'Headline',
+          datePublished: '2024-01-15',
+          author: 'Jane Smith',
+          publisher: 'Tech Blog',
+        })
+      );
 
-      expect(schema['@type']).toBe('Event');
-      expect(schema.name).toBe('Tech Conference 2024');
-      expect(schema.startDate).toBe('2024-06-15T09:00:00Z');
+      expect(result.valid).toBe(true);
+      expect(result.warnings.map((warning) => warning.path)).toEqual([
+        '$.image',
+        '$.dateModified',
+        '$.publisher.url',
+        '$.publisher.logo',
+        '$.publisher.sameAs',
+      ]);
     });
 
-    it('should include all optional event fields', () => {
-      const schema = createEventSchema({
-        name: 'Tech Conference 2024',
-        description: 'Annual technology conference',
-        startDate: '2024-06-15T09:00:00Z',
-        endDate: '2024-06-17T18:00:00Z',
-        location: {
-          name: 'Convention Center',
-          address: '123 Main St, San Francisco, CA',
-        },
-        url: 'https://example.com/events/tech-conf-2024',
-        image: 'https://example.com/event.jpg',
-        eventStatus: 'EventScheduled',
-        eventAttendanceMode: 'OfflineEventAttendanceMode',
-      });
+    it('should validate every node of a graph and skip references', () => {
+      const graph = mergeSchemas(
+        [
+          createProductSchema({
+            name: 'Widget',
+            description: 'A widget',
+            price: 9.99,
+            priceCurrency: 'USD',
+          }),
+          {
+            '@context': 'https://schema.org',
+            '@type': 'Event',
+            name: 'Launch',
+            startDate: '2024-06-15',
+            location: { '@id': 'https://example.com/#venue' },
+          },
+        ],
+        { graph: true }
+      );
 
-      expect(schema.description).toBe('Annual technology conference');
-      expect(schema.endDate).toBe('2024-06-17T18:00:00Z');
-      expect(schema.location.name).toBe('Convention Center');
-      expect(schema.location.address.streetAddress).toBe('123 Main St, San Francisco, CA');
-      expect(schema.url).toBe('https://example.com/events/tech-conf-2024');
-      expect(schema.image).toBe('https://example.com/event.jpg');
-      expect(schema.eventStatus).toBe('https://schema.org/EventScheduled');
-      expect(schema.eventAttendanceMode).toBe('https://schema.org/OfflineEventAttendanceMode');
+      const result = validateSchema(graph);
+
+      expect(result.valid).toBe(true);
+      expect(result.warnings.map((warning) => warning.path)).toContain(
+        '$["@graph"][0].offers.availability'
+      );
     });
-  });
 
-  describe('mergeSchemas', () => {
-    it('should merge multiple schemas into an array', () => {
-      const orgSchema = createOrganizationSchema({
-        organization: { name: 'My Business', url: 'https://mybusiness.com' },
-      });
-      const faqSchema = createFAQSchema([
-        { question: 'Q1?', answer: 'A1' },
+    it('should validate arrays of schemas and ignore unknown types', () => {
+      const result = validateSchema([
+        { '@context': 'https://schema.org', '@type': 'Thing', name: 'Anything' },
+        { '@context': 'https://schema.org', '@type': 'Product' },
       ]);
 
-      const merged = mergeSchemas([orgSchema, faqSchema]);
-
-      expect(merged).toHaveLength(2);
-      expect(merged[0]['@type']).toBe('LocalBusiness');
-      expect(merged[1]['@type']).toBe('FAQPage');
+      expect(result.errors.map((error) => error.path)).toEqual(['$[1].name', '$[1]']);
     });
   });
 
@@ -475,7 +3895,7 @@ describe('next-json-ld', () => {
 
       it('should handle deeply nested objects', () => {
         const schema = {
-          '@context': 'https://schema.org',
+          '@context': 'https://schema.org' as const,
           '@type': 'Product',
           offers: {
             '@type': 'Offer',
@@ -494,19 +3914,20 @@ describe('next-json-ld', () => {
 
       it('should handle special characters in strings', () => {
         const schema = {
-          '@context': 'https://schema.org',
+          '@context': 'https://schema.org' as const,
           '@type': 'Organization',
           name: "Test & Sons \"Company\" <test@example.com>",
           description: 'Special chars: éàüö 中文日本語',
         };
         const result = createJsonLdScript(schema);
-        expect(result).toContain('Test & Sons');
+        expect(result).toContain('Test \\u0026 Sons');
+        expect(result).toContain('\\u003ctest@example.com\\u003e');
         expect(result).toContain('中文日本語');
       });
 
       it('should handle Unicode characters', () => {
         const schema = {
-          '@context': 'https://schema.org',
+          '@context': 'https://schema.org' as const,
           '@type': 'Event',
           name: '🎉 New Year\'s Eve Party 🎊',
           description: 'Celebrate! 🚀',
@@ -529,16 +3950,16 @@ describe('next-json-ld', () => {
           { question: 'Q1', answer: 'A1' },
         ]);
         expect(schema.mainEntity).toHaveLength(1);
-        expect(schema.mainEntity[0].name).toBe('Q1');
-        expect(schema.mainEntity[0].acceptedAnswer.text).toBe('A1');
+        expect(schema.mainEntity[0]?.name).toBe('Q1');
+        expect(schema.mainEntity[0]?.acceptedAnswer.text).toBe('A1');
       });
 
       it('should handle FAQ with special characters', () => {
         const schema = createFAQSchema([
           { question: 'What is "CSRF"?', answer: 'It\'s <strong>secure</strong>!' },
         ]);
-        expect(schema.mainEntity[0].name).toBe('What is "CSRF"?');
-        expect(schema.mainEntity[0].acceptedAnswer.text).toBe('It\'s <strong>secure</strong>!');
+        expect(schema.mainEntity[0]?.name).toBe('What is "CSRF"?');
+        expect(schema.mainEntity[0]?.acceptedAnswer.text).toBe('It\'s <strong>secure</strong>!');
       });
     });
 
@@ -553,14 +3974,14 @@ describe('next-json-ld', () => {
           { name: 'Home', url: 'https://example.com' },
         ]);
         expect(schema.itemListElement).toHaveLength(1);
-        expect(schema.itemListElement[0].position).toBe(1);
+        expect(schema.itemListElement[0]?.position).toBe(1);
       });
 
       it('should handle URLs with special characters', () => {
         const schema = createBreadcrumbSchema([
           { name: 'Category', url: 'https://example.com/category?filter=price<100' },
         ]);
-        expect(schema.itemListElement[0].item).toContain('filter=price');
+        expect(schema.itemListElement[0]?.item).toContain('filter=price');
       });
     });
 
@@ -635,8 +4056,14 @@ describe('next-json-ld', () => {
             country: 'USA',
           },
         });
-        // Only city and geoMidpoint/geoRadius are handled in current implementation
-        expect(schema.areaServed).toBeUndefined();
+        expect(schema.areaServed).toEqual({
+          '@type': 'State',
+          name: 'California',
+          containedInPlace: {
+            '@type': 'Country',
+            name: 'USA',
+          },
+        });
       });
 
       it('should handle opening hours without specification', () => {
@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest';
+import { isValidElement, type ReactElement } from 'react';
+import { renderToStaticMarkup } from 'react-dom/server';
+import { JsonLd } from '../src/react';
+import { JsonLdHead } from '../src/head';
+import { createFAQSchema, createOrganizationSchema } from '../src/index';
+
+const organizationSchema = createOrganizationSchema({
+  organization: { name: 'My Business', url: 'https://mybusiness.com' },
+});
+
+describe('JsonLd', () => {
+  it('should render a single JSON-LD script tag', () => {
+    const html = renderToStaticMarkup(JsonLd({ schema: organizationSchema }));
+
+    expect(html.startsWith('<script type="application/ld+json">')).toBe(true);
+    expect(html.match(/<script/g)).toHaveLength(1);
+    expect(html).toContain('"name":"My Business"');
+  });
+
+  it('should render an array of schemas in one script tag', () => {
+    const faqSchema = createFAQSchema([{ question: 'Q1?', answer: 'A1' }]);
+    const html = renderToStaticMarkup(JsonLd({ schema: [organizationSchema, faqSchema] }));
+
+    expect(html.match(/<script/g)).toHaveLength(1);
+    expect(html).toContain('"@type":"LocalBusiness"');
+    expect(html).toContain('"@type":"FAQPage"');
+  });
+
+  it('should render id and nonce attributes', () => {
+    const html = renderToStaticMarkup(
+      JsonLd({ schema: organizationSchema, id: 'organization', nonce: 'abc123' })
+    );
+
+    expect(html).toContain('id="organization"');
+    expect(html).toContain('nonce="abc123"');
+  });
+
+  it('should escape user content so it cannot close the script tag', () => {
+    const faqSchema = createFAQSchema([
+      { question: 'Break out?', answer: '</script><script>alert(1)</script>' },
+    ]);
+    const html = renderToStaticMarkup(JsonLd({ schema: faqSchema }));
+
+    expect(html.match(/<\/script>/g)).toHaveLength(1);
+    expect(html).toContain('\\u003c/script\\u003e');
+  });
+
+  it('should pretty-print when requested', () => {
+    const html = renderToStaticMarkup(JsonLd({ schema: organizationSchema, pretty: true }));
+    expect(html).toContain('\n  "@type": "LocalBusiness"');
+  });
+});
+
+describe('JsonLdHead', () => {
+  it('should wrap the script tag in next/head keyed by id', () => {
+    const element = JsonLdHead({ schema: organizationSchema, id: 'organization', nonce: 'abc123' });
+    const script = (element as ReactElement<{ children: ReactElement }>).props.children;
+
+    expect(isValidElement(script)).toBe(true);
+    expect(script.type).toBe('script');
+    expect(script.key).toBe('organization');
+    expect(script.props).toMatchObject({
+      type: 'application/ld+json',
+      id: 'organization',
+      nonce: 'abc123',
+    });
+  });
+
+  it('should serialize the schema safely', () => {
+    const faqSchema = createFAQSchema([{ question: 'Q?', answer: '</script>' }]);
+    const element = JsonLdHead({ schema: faqSchema });
+    const script = (element as ReactElement<{ children: ReactElement }>).props.children;
+    const { __html } = (script.props as { dangerouslySetInnerHTML: { __html: string } })
+      .dangerouslySetInnerHTML;
+
+    expect(__html).not.toContain('</script>');
+    expect(JSON.parse(__html)).toEqual(faqSchema);
+  });
+});